@@ -0,0 +1,213 @@
+/**
+ * Forgot Password Screen for Nox Chat
+ * Requests a password reset email
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/lib/auth-context';
+import { Button, Input, Card } from '@/components/ui';
+import { Colors, FontSizes, Spacing, BorderRadius } from '@/constants/theme';
+
+export default function ForgotPasswordScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ email?: string }>();
+  const { requestPasswordReset } = useAuth();
+
+  const [email, setEmail] = useState(params.email || '');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [sentTo, setSentTo] = useState('');
+
+  const handleSubmit = async () => {
+    if (!email.trim()) {
+      setError('Please enter your email');
+      return;
+    }
+
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const result = await requestPasswordReset(email);
+      if (result.success) {
+        setSentTo(email.trim().toLowerCase());
+      } else {
+        setError(result.error || 'Failed to send reset email');
+      }
+    } catch (err) {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.content}>
+            <Card variant="transparent" style={styles.card}>
+              <View style={styles.header}>
+                <View style={styles.iconContainer}>
+                  <Ionicons
+                    name={sentTo ? 'mail-outline' : 'key-outline'}
+                    size={32}
+                    color={Colors.primary}
+                  />
+                </View>
+                <Text style={styles.title}>{sentTo ? 'Check your email' : 'Forgot password?'}</Text>
+                {sentTo ? (
+                  <Text style={styles.subtitle}>
+                    If an account exists for{'\n'}
+                    <Text style={styles.emailText}>{sentTo}</Text>
+                    {'\n'}you will receive a link to reset your password.
+                  </Text>
+                ) : (
+                  <Text style={styles.subtitle}>
+                    Enter your email and we will send you a link to reset your password.
+                  </Text>
+                )}
+              </View>
+
+              {error ? (
+                <View style={styles.errorContainer}>
+                  <Text style={styles.errorText}>{error}</Text>
+                </View>
+              ) : null}
+
+              {sentTo ? (
+                <Button variant="outline" onPress={() => setSentTo('')} fullWidth>
+                  Use a different email
+                </Button>
+              ) : (
+                <View style={styles.form}>
+                  <Input
+                    label="Email"
+                    placeholder="you@example.com"
+                    value={email}
+                    onChangeText={setEmail}
+                    keyboardType="email-address"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    autoFocus
+                    editable={!isLoading}
+                    leftIcon={
+                      <Ionicons name="mail-outline" size={20} color={Colors.textMuted} />
+                    }
+                  />
+
+                  <Button
+                    onPress={handleSubmit}
+                    loading={isLoading}
+                    disabled={isLoading}
+                    fullWidth
+                  >
+                    Send reset link
+                  </Button>
+                </View>
+              )}
+
+              <Button
+                variant="ghost"
+                onPress={() => router.replace('/(auth)/login')}
+                fullWidth
+                style={styles.backButton}
+              >
+                Back to login
+              </Button>
+            </Card>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: Spacing.xl,
+    paddingVertical: Spacing.xxl,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 400,
+    alignSelf: 'center',
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: Spacing.xxl,
+  },
+  iconContainer: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: 'rgba(0, 255, 154, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: Spacing.lg,
+  },
+  title: {
+    fontSize: FontSizes.xxl,
+    fontWeight: '700',
+    color: Colors.text,
+    marginBottom: Spacing.sm,
+  },
+  subtitle: {
+    fontSize: FontSizes.md,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+  emailText: {
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  errorContainer: {
+    backgroundColor: 'rgba(255, 92, 92, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 92, 92, 0.2)',
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  errorText: {
+    color: Colors.error,
+    fontSize: FontSizes.sm,
+    textAlign: 'center',
+  },
+  form: {
+    marginBottom: Spacing.sm,
+  },
+  backButton: {
+    marginTop: Spacing.md,
+  },
+});
@@ -22,12 +22,16 @@ import { Colors, FontSizes, Spacing, BorderRadius } from '@/constants/theme';
 
 export default function LoginScreen() {
   const router = useRouter();
-  const { signIn } = useAuth();
+  const { signIn, verifyTwoFactor } = useAuth();
   
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [trustDevice, setTrustDevice] = useState(false);
 
   const handleLogin = async () => {
     if (!email || !password) {
@@ -43,8 +47,12 @@ export default function LoginScreen() {
       
       if (result.success) {
         router.replace('/(chat)');
+      } else if (result.twoFactorRequired) {
+        setTwoFactorCode('');
+        setUseBackupCode(false);
+        setTwoFactorStep(true);
       } else if (result.needsVerification) {
-        setError('Please verify your email before signing in');
+        router.push({ pathname: '/(auth)/verify-email', params: { email: email.toLowerCase().trim() } });
       } else {
         setError(result.error || 'Invalid credentials');
       }
@@ -55,6 +63,36 @@ export default function LoginScreen() {
     }
   };
 
+  const handleVerifyTwoFactor = async () => {
+    if (!twoFactorCode.trim()) {
+      setError(useBackupCode ? 'Please enter a backup code' : 'Please enter the 6-digit code');
+      return;
+    }
+
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const result = await verifyTwoFactor(twoFactorCode, { backupCode: useBackupCode, trustDevice });
+      if (result.success) {
+        router.replace('/(chat)');
+      } else {
+        setError(result.error || 'Invalid code');
+      }
+    } catch (err) {
+      setError('An error occurred. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleBackToSignIn = () => {
+    setTwoFactorStep(false);
+    setTwoFactorCode('');
+    setPassword('');
+    setError('');
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <KeyboardAvoidingView
@@ -80,8 +118,14 @@ export default function LoginScreen() {
 
             <Card variant="transparent" style={styles.card}>
               <View style={styles.header}>
-                <Text style={styles.title}>Welcome back</Text>
-                <Text style={styles.subtitle}>Sign in to your Nox account</Text>
+                <Text style={styles.title}>{twoFactorStep ? 'Two-factor authentication' : 'Welcome back'}</Text>
+                <Text style={styles.subtitle}>
+                  {twoFactorStep
+                    ? useBackupCode
+                      ? 'Enter one of your backup codes'
+                      : 'Enter the code from your authenticator app'
+                    : 'Sign in to your Nox account'}
+                </Text>
               </View>
 
 
@@ -91,53 +135,127 @@ export default function LoginScreen() {
                 </View>
               ) : null}
 
-              <View style={styles.form}>
-                <Input
-                  label="Email"
-                  placeholder="you@example.com"
-                  value={email}
-                  onChangeText={setEmail}
-                  keyboardType="email-address"
-                  autoCapitalize="none"
-                  autoCorrect={false}
-                  editable={!isLoading}
-                  leftIcon={
-                    <Ionicons name="mail-outline" size={20} color={Colors.textMuted} />
-                  }
-                />
-
-                <Input
-                  label="Password"
-                  placeholder="••••••••"
-                  value={password}
-                  onChangeText={setPassword}
-                  isPassword
-                  editable={!isLoading}
-                  leftIcon={
-                    <Ionicons name="lock-closed-outline" size={20} color={Colors.textMuted} />
-                  }
-                />
-
-                <Button
-                  onPress={handleLogin}
-                  loading={isLoading}
-                  disabled={isLoading}
-                  fullWidth
-                  style={styles.loginButton}
-                >
-                  Sign in
-                </Button>
-              </View>
+              {twoFactorStep ? (
+                <View style={styles.form}>
+                  <Input
+                    label={useBackupCode ? 'Backup code' : 'Authentication code'}
+                    placeholder={useBackupCode ? 'xxxxx-xxxxx' : '123456'}
+                    value={twoFactorCode}
+                    onChangeText={setTwoFactorCode}
+                    keyboardType={useBackupCode ? 'default' : 'number-pad'}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    autoComplete="one-time-code"
+                    maxLength={useBackupCode ? 20 : 6}
+                    editable={!isLoading}
+                    leftIcon={
+                      <Ionicons name="shield-checkmark-outline" size={20} color={Colors.textMuted} />
+                    }
+                  />
 
-              {/* Sign up link */}
-              <View style={styles.footer}>
-                <Text style={styles.footerText}>Don't have an account? </Text>
-                <Link href="/(auth)/signup" asChild>
-                  <TouchableOpacity>
-                    <Text style={styles.linkText}>Sign up</Text>
+                  <TouchableOpacity
+                    style={styles.checkboxRow}
+                    onPress={() => setTrustDevice(prev => !prev)}
+                    disabled={isLoading}
+                  >
+                    <Ionicons
+                      name={trustDevice ? 'checkbox' : 'square-outline'}
+                      size={20}
+                      color={trustDevice ? Colors.primary : Colors.textMuted}
+                    />
+                    <Text style={styles.checkboxText}>Trust this device for 30 days</Text>
                   </TouchableOpacity>
-                </Link>
-              </View>
+
+                  <Button
+                    onPress={handleVerifyTwoFactor}
+                    loading={isLoading}
+                    disabled={isLoading}
+                    fullWidth
+                    style={styles.loginButton}
+                  >
+                    Verify
+                  </Button>
+
+                  <TouchableOpacity
+                    style={styles.secondaryAction}
+                    onPress={() => {
+                      setUseBackupCode(prev => !prev);
+                      setTwoFactorCode('');
+                      setError('');
+                    }}
+                    disabled={isLoading}
+                  >
+                    <Text style={styles.linkText}>
+                      {useBackupCode ? 'Use authenticator app instead' : 'Use a backup code instead'}
+                    </Text>
+                  </TouchableOpacity>
+
+                  <TouchableOpacity style={styles.secondaryAction} onPress={handleBackToSignIn} disabled={isLoading}>
+                    <Text style={styles.footerText}>Back to sign in</Text>
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <View style={styles.form}>
+                  <Input
+                    label="Email"
+                    placeholder="you@example.com"
+                    value={email}
+                    onChangeText={setEmail}
+                    keyboardType="email-address"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    editable={!isLoading}
+                    leftIcon={
+                      <Ionicons name="mail-outline" size={20} color={Colors.textMuted} />
+                    }
+                  />
+
+                  <Input
+                    label="Password"
+                    placeholder="••••••••"
+                    value={password}
+                    onChangeText={setPassword}
+                    isPassword
+                    editable={!isLoading}
+                    leftIcon={
+                      <Ionicons name="lock-closed-outline" size={20} color={Colors.textMuted} />
+                    }
+                  />
+
+                  <TouchableOpacity
+                    style={styles.forgotPassword}
+                    onPress={() => router.push({
+                      pathname: '/(auth)/forgot-password',
+                      params: email ? { email } : {},
+                    })}
+                    disabled={isLoading}
+                  >
+                    <Text style={styles.linkText}>Forgot password?</Text>
+                  </TouchableOpacity>
+
+                  <Button
+                    onPress={handleLogin}
+                    loading={isLoading}
+                    disabled={isLoading}
+                    fullWidth
+                    style={styles.loginButton}
+                  >
+                    Sign in
+                  </Button>
+                </View>
+              )}
+
+              {/* Sign up link */}
+              {!twoFactorStep && (
+                <View style={styles.footer}>
+                  <Text style={styles.footerText}>Don't have an account? </Text>
+                  <Link href="/(auth)/signup" asChild>
+                    <TouchableOpacity>
+                      <Text style={styles.linkText}>Sign up</Text>
+                    </TouchableOpacity>
+                  </Link>
+                </View>
+              )}
             </Card>
           </View>
         </ScrollView>
@@ -220,6 +338,26 @@ const styles = StyleSheet.create({
   loginButton: {
     marginTop: Spacing.sm,
   },
+  checkboxRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  checkboxText: {
+    fontSize: FontSizes.sm,
+    color: Colors.textSecondary,
+  },
+  forgotPassword: {
+    alignSelf: 'flex-end',
+    paddingVertical: Spacing.xs,
+    marginBottom: Spacing.md,
+  },
+  secondaryAction: {
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
   footer: {
     flexDirection: 'row',
     justifyContent: 'center',
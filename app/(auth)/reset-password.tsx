@@ -0,0 +1,258 @@
+/**
+ * Reset Password Screen for Nox Chat
+ * Opened from the link in a password reset email
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/lib/auth-context';
+import { validatePassword } from '@/lib/security';
+import { Button, Input, Card, PasswordStrength } from '@/components/ui';
+import { Colors, FontSizes, Spacing, BorderRadius } from '@/constants/theme';
+
+export default function ResetPasswordScreen() {
+  const router = useRouter();
+  const { token, error: linkError } = useLocalSearchParams<{ token?: string; error?: string }>();
+  const { resetPassword } = useAuth();
+
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isComplete, setIsComplete] = useState(false);
+
+  const linkInvalid = !token || !!linkError;
+  const passwordValid = validatePassword(password).valid;
+  const passwordsMatch = password === confirmPassword;
+
+  const handleReset = async () => {
+    if (!token) return;
+    if (!passwordValid) {
+      setError(validatePassword(password).errors[0]);
+      return;
+    }
+    if (!passwordsMatch) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const result = await resetPassword(token, password);
+      if (result.success) {
+        setIsComplete(true);
+      } else {
+        setError(result.error || 'Failed to reset password');
+      }
+    } catch (err) {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderBody = () => {
+    if (isComplete) {
+      return (
+        <>
+          <View style={styles.header}>
+            <View style={styles.iconContainer}>
+              <Ionicons name="checkmark-circle-outline" size={32} color={Colors.primary} />
+            </View>
+            <Text style={styles.title}>Password reset</Text>
+            <Text style={styles.subtitle}>Sign in with your new password.</Text>
+          </View>
+          <Button onPress={() => router.replace('/(auth)/login')} fullWidth>
+            Sign in
+          </Button>
+        </>
+      );
+    }
+
+    if (linkInvalid) {
+      return (
+        <>
+          <View style={styles.header}>
+            <View style={[styles.iconContainer, styles.iconContainerError]}>
+              <Ionicons name="alert-circle-outline" size={32} color={Colors.error} />
+            </View>
+            <Text style={styles.title}>Link expired</Text>
+            <Text style={styles.subtitle}>
+              This reset link is invalid or has expired. Request a new one to continue.
+            </Text>
+          </View>
+          <Button onPress={() => router.replace('/(auth)/forgot-password')} fullWidth>
+            Request a new link
+          </Button>
+          <Button
+            variant="ghost"
+            onPress={() => router.replace('/(auth)/login')}
+            fullWidth
+            style={styles.backButton}
+          >
+            Back to login
+          </Button>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <View style={styles.header}>
+          <View style={styles.iconContainer}>
+            <Ionicons name="lock-closed-outline" size={32} color={Colors.primary} />
+          </View>
+          <Text style={styles.title}>Choose a new password</Text>
+          <Text style={styles.subtitle}>Other devices will need to sign in again.</Text>
+        </View>
+
+        {error ? (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+          </View>
+        ) : null}
+
+        <Input
+          label="New Password"
+          placeholder="••••••••"
+          value={password}
+          onChangeText={setPassword}
+          isPassword
+          autoFocus
+          editable={!isLoading}
+          leftIcon={
+            <Ionicons name="lock-closed-outline" size={20} color={Colors.textMuted} />
+          }
+        />
+
+        <PasswordStrength password={password} />
+
+        <Input
+          label="Confirm Password"
+          placeholder="••••••••"
+          value={confirmPassword}
+          onChangeText={setConfirmPassword}
+          isPassword
+          editable={!isLoading}
+          error={confirmPassword && !passwordsMatch ? 'Passwords do not match' : undefined}
+          leftIcon={
+            <Ionicons name="lock-closed-outline" size={20} color={Colors.textMuted} />
+          }
+        />
+
+        <Button
+          onPress={handleReset}
+          loading={isLoading}
+          disabled={isLoading || !passwordValid || !passwordsMatch}
+          fullWidth
+          style={styles.submitButton}
+        >
+          Reset password
+        </Button>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.content}>
+            <Card variant="transparent" style={styles.card}>
+              {renderBody()}
+            </Card>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: Spacing.xl,
+    paddingVertical: Spacing.xxl,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 400,
+    alignSelf: 'center',
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: Spacing.xxl,
+  },
+  iconContainer: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: 'rgba(0, 255, 154, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: Spacing.lg,
+  },
+  iconContainerError: {
+    backgroundColor: 'rgba(255, 92, 92, 0.1)',
+  },
+  title: {
+    fontSize: FontSizes.xxl,
+    fontWeight: '700',
+    color: Colors.text,
+    marginBottom: Spacing.sm,
+  },
+  subtitle: {
+    fontSize: FontSizes.md,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+  errorContainer: {
+    backgroundColor: 'rgba(255, 92, 92, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 92, 92, 0.2)',
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  errorText: {
+    color: Colors.error,
+    fontSize: FontSizes.sm,
+    textAlign: 'center',
+  },
+  submitButton: {
+    marginTop: Spacing.sm,
+  },
+  backButton: {
+    marginTop: Spacing.md,
+  },
+});
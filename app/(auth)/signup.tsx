@@ -30,7 +30,6 @@ export default function SignupScreen() {
   const [confirmPassword, setConfirmPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
-  const [success, setSuccess] = useState(false);
 
   const handleSignup = async () => {
     if (!name || !email || !password || !confirmPassword) {
@@ -55,11 +54,14 @@ export default function SignupScreen() {
       const result = await signUp(email, password, name);
       
       if (result.success) {
-        setSuccess(true);
-        // Try to sign in automatically
+        // Try to sign in automatically; accounts that need verification wait on the verify screen
         const signInResult = await signIn(email, password);
         if (signInResult.success) {
           router.replace('/(chat)');
+        } else if (signInResult.needsVerification) {
+          router.replace({ pathname: '/(auth)/verify-email', params: { email: email.toLowerCase().trim() } });
+        } else {
+          router.replace('/(auth)/login');
         }
       } else {
         setError(result.error || 'Sign up failed');
@@ -71,38 +73,6 @@ export default function SignupScreen() {
     }
   };
 
-  if (success) {
-    return (
-      <SafeAreaView style={styles.container}>
-        <View style={styles.content}>
-          <Card variant="transparent" style={styles.card}>
-            <View style={styles.successContainer}>
-              <View style={styles.iconContainer}>
-                <Ionicons name="mail-outline" size={32} color={Colors.primary} />
-              </View>
-              <Text style={styles.title}>Check your email</Text>
-              <Text style={styles.subtitle}>
-                We sent a verification link to{'\n'}
-                <Text style={styles.emailText}>{email}</Text>
-              </Text>
-              <Text style={styles.helpText}>
-                Click the link in the email to verify your account.
-              </Text>
-              <Button
-                variant="outline"
-                onPress={() => router.replace('/(auth)/login')}
-                fullWidth
-                style={styles.backButton}
-              >
-                Back to login
-              </Button>
-            </View>
-          </Card>
-        </View>
-      </SafeAreaView>
-    );
-  }
-
   return (
     <SafeAreaView style={styles.container}>
       <KeyboardAvoidingView
@@ -309,32 +279,4 @@ const styles = StyleSheet.create({
     color: Colors.primary,
     fontWeight: '600',
   },
-  // Success state
-  successContainer: {
-    alignItems: 'center',
-    paddingVertical: Spacing.lg,
-  },
-  iconContainer: {
-    width: 64,
-    height: 64,
-    borderRadius: 32,
-    backgroundColor: 'rgba(0, 255, 154, 0.2)',
-    alignItems: 'center',
-    justifyContent: 'center',
-    marginBottom: Spacing.lg,
-  },
-  emailText: {
-    color: Colors.text,
-    fontWeight: '600',
-  },
-  helpText: {
-    fontSize: FontSizes.sm,
-    color: Colors.textSecondary,
-    textAlign: 'center',
-    marginTop: Spacing.md,
-    marginBottom: Spacing.xl,
-  },
-  backButton: {
-    marginTop: Spacing.md,
-  },
 });
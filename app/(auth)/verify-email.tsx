@@ -0,0 +1,234 @@
+/**
+ * Email Verification Screen for Nox Chat
+ * Shown after signup while verification is pending, and opened by verification links
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/lib/auth-context';
+import { Button, Card } from '@/components/ui';
+import { Colors, FontSizes, Spacing, BorderRadius } from '@/constants/theme';
+
+// Seconds before another verification email can be requested
+const RESEND_COOLDOWN = 60;
+
+type Status = 'pending' | 'verifying' | 'verified' | 'failed';
+
+export default function VerifyEmailScreen() {
+  const router = useRouter();
+  const { email, token, error: linkError } = useLocalSearchParams<{ email?: string; token?: string; error?: string }>();
+  const { sendVerificationEmail, verifyEmail } = useAuth();
+
+  const [status, setStatus] = useState<Status>(token ? 'verifying' : linkError ? 'failed' : 'pending');
+  const [error, setError] = useState(linkError ? 'This verification link is invalid or has expired' : '');
+  const [notice, setNotice] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [cooldown, setCooldown] = useState(0);
+
+  // Complete verification when opened from a link
+  useEffect(() => {
+    if (!token) return;
+    setStatus('verifying');
+    verifyEmail(token).then(result => {
+      if (!result.success) {
+        setError(result.error || 'Failed to verify email');
+        setStatus('failed');
+      } else if (result.signedIn) {
+        router.replace('/(chat)');
+      } else {
+        setStatus('verified');
+      }
+    });
+  }, [token, verifyEmail, router]);
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown(prev => prev - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const handleResend = async () => {
+    if (!email) return;
+    setError('');
+    setNotice('');
+    setIsSending(true);
+    try {
+      const result = await sendVerificationEmail(email);
+      if (result.success) {
+        setNotice('Verification email sent');
+        setCooldown(RESEND_COOLDOWN);
+      } else {
+        setError(result.error || 'Failed to send verification email');
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const renderBody = () => {
+    if (status === 'verifying') {
+      return (
+        <>
+          <ActivityIndicator size="large" color={Colors.primary} style={styles.spinner} />
+          <Text style={styles.title}>Verifying your email</Text>
+        </>
+      );
+    }
+
+    if (status === 'verified') {
+      return (
+        <>
+          <View style={styles.iconContainer}>
+            <Ionicons name="checkmark-circle-outline" size={32} color={Colors.primary} />
+          </View>
+          <Text style={styles.title}>Email verified</Text>
+          <Text style={styles.helpText}>Your account is ready. Sign in to start chatting.</Text>
+          <Button onPress={() => router.replace('/(auth)/login')} fullWidth>
+            Sign in
+          </Button>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <View style={styles.iconContainer}>
+          <Ionicons
+            name={status === 'failed' ? 'alert-circle-outline' : 'mail-outline'}
+            size={32}
+            color={status === 'failed' ? Colors.error : Colors.primary}
+          />
+        </View>
+        <Text style={styles.title}>{status === 'failed' ? 'Verification failed' : 'Check your email'}</Text>
+        {email ? (
+          <Text style={styles.subtitle}>
+            We sent a verification link to{'\n'}
+            <Text style={styles.emailText}>{email}</Text>
+          </Text>
+        ) : null}
+        <Text style={styles.helpText}>
+          {status === 'failed'
+            ? 'Request a new link, or sign in to have one sent again.'
+            : 'Click the link in the email to verify your account.'}
+        </Text>
+
+        {error ? (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+          </View>
+        ) : null}
+        {notice ? <Text style={styles.noticeText}>{notice}</Text> : null}
+
+        {email ? (
+          <Button
+            onPress={handleResend}
+            loading={isSending}
+            disabled={isSending || cooldown > 0}
+            fullWidth
+          >
+            {cooldown > 0 ? `Resend in ${cooldown}s` : 'Resend verification email'}
+          </Button>
+        ) : null}
+        <Button
+          variant="outline"
+          onPress={() => router.replace('/(auth)/login')}
+          fullWidth
+          style={styles.backButton}
+        >
+          Back to login
+        </Button>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        <Card variant="transparent" style={styles.card}>
+          <View style={styles.body}>{renderBody()}</View>
+        </Card>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: Spacing.xl,
+    paddingVertical: Spacing.xxl,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 400,
+    alignSelf: 'center',
+  },
+  body: {
+    alignItems: 'center',
+    paddingVertical: Spacing.lg,
+  },
+  spinner: {
+    marginBottom: Spacing.lg,
+  },
+  iconContainer: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: 'rgba(0, 255, 154, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: Spacing.lg,
+  },
+  title: {
+    fontSize: FontSizes.xxl,
+    fontWeight: '700',
+    color: Colors.text,
+    marginBottom: Spacing.sm,
+  },
+  subtitle: {
+    fontSize: FontSizes.md,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+  emailText: {
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  helpText: {
+    fontSize: FontSizes.sm,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: Spacing.md,
+    marginBottom: Spacing.xl,
+  },
+  errorContainer: {
+    alignSelf: 'stretch',
+    backgroundColor: 'rgba(255, 92, 92, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 92, 92, 0.2)',
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  errorText: {
+    color: Colors.error,
+    fontSize: FontSizes.sm,
+    textAlign: 'center',
+  },
+  noticeText: {
+    fontSize: FontSizes.sm,
+    color: Colors.primary,
+    marginBottom: Spacing.lg,
+  },
+  backButton: {
+    marginTop: Spacing.md,
+  },
+});
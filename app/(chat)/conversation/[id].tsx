@@ -21,11 +21,12 @@ import {
   Linking,
   Share,
   ScrollView,
+  AppState,
 } from 'react-native';
 import * as Clipboard from 'expo-clipboard';
 import * as ImagePicker from 'expo-image-picker';
 import * as DocumentPicker from 'expo-document-picker';
-import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useRouter, useLocalSearchParams, useFocusEffect } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { Image } from 'expo-image';
@@ -33,12 +34,39 @@ import { Video, ResizeMode } from 'expo-av';
 import { useChat } from '@/lib/chat-context';
 import { useAuth } from '@/lib/auth-context';
 import { authClient } from '@/lib/auth-client';
-import { Avatar, Badge, LinkText } from '@/components/ui';
+import { Avatar, Badge, Button, Input, LinkText, EmojiPicker } from '@/components/ui';
+import {
+  MemberActionsSheet,
+  BanMemberSheet,
+  BannedMembersList,
+  InviteLinkSection,
+  InviteQrModal,
+  CreateInviteSheet,
+  ReportSheet,
+  GroupReportsList,
+} from '@/components/chat';
 import { Colors, FontSizes, Spacing, BorderRadius } from '@/constants/theme';
-import { Message, Attachment } from '@/lib/types';
-import { API_BASE_URL } from '@/lib/api-config';
+import {
+  Message,
+  Attachment,
+  MessageReply,
+  MessageReader,
+  GroupMember,
+  GroupBan,
+  GroupInvite,
+  GroupReport,
+  ReportCategory,
+  ReportTarget,
+} from '@/lib/types';
+import { API_BASE_URL, API_ENDPOINTS } from '@/lib/api-config';
 import { notificationService } from '@/lib/notification-service';
 import apiClient from '@/lib/api-client';
+import { getMentionQuery, mentionsUser } from '@/lib/mentions';
+import { contentPreferences, shouldBlurNsfw, NsfwBlurMode } from '@/lib/content-preferences';
+import { scanImage, hasNudityClassifier } from '@/lib/nudity-sensor';
+
+// Shown at the top of the message actions menu
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
 
 // Extended types for group settings
 interface GroupSettings {
@@ -49,26 +77,61 @@ interface GroupSettings {
   anonymousMode?: boolean;
 }
 
-interface GroupMember {
-  id: string;
-  role: 'ADMIN' | 'MEMBER';
-  user: {
-    id: string;
-    name: string;
-    username: string | null;
-    displayUsername: string | null;
-    image: string | null;
-  };
-}
+// How many of a user's recent messages are attached when reporting the user
+const REPORT_USER_MESSAGE_LIMIT = 20;
+
+// 0 turns slow mode off; values are seconds between messages
+const SLOW_MODE_OPTIONS: { label: string; seconds: number }[] = [
+  { label: 'Off', seconds: 0 },
+  { label: '5s', seconds: 5 },
+  { label: '10s', seconds: 10 },
+  { label: '30s', seconds: 30 },
+  { label: '1m', seconds: 60 },
+  { label: '5m', seconds: 300 },
+  { label: '15m', seconds: 900 },
+  { label: '1h', seconds: 3600 },
+];
+
+const formatCooldown = (seconds: number) => {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return rest > 0 ? `${minutes}m ${rest}s` : `${minutes}m`;
+};
 
 export default function ConversationScreen() {
   const router = useRouter();
   const { id } = useLocalSearchParams<{ id: string }>();
   const { user } = useAuth();
-  const { activeChat, messages, messagesLoading, sendMessage, fetchMessages, refreshAll } = useChat();
+  const {
+    activeChat,
+    messages,
+    messagesLoading,
+    hasMore,
+    olderMessagesLoading,
+    loadOlderMessages,
+    loadMessagesUntil,
+    sendMessage,
+    retryMessage,
+    discardMessage,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    typingUsers,
+    notifyTyping,
+    readReceiptsEnabled,
+    markChatRead,
+    leaveGroup,
+    deleteGroup,
+    deleteDM,
+    updateGroup,
+    isUserBlocked,
+    blockUser,
+    unblockUser,
+    refreshAll,
+  } = useChat();
   
   const [newMessage, setNewMessage] = useState('');
-  const [isSending, setIsSending] = useState(false);
   const [showOptionsMenu, setShowOptionsMenu] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
   const flatListRef = useRef<FlatList>(null);
@@ -90,6 +153,37 @@ export default function ConversationScreen() {
   const [isUploading, setIsUploading] = useState(false);
   const [groupMembers, setGroupMembers] = useState<GroupMember[]>([]);
   const [editingGroupSettings, setEditingGroupSettings] = useState<GroupSettings>({});
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const highlightTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [reactionTarget, setReactionTarget] = useState<Message | null>(null);
+  const [messageReaders, setMessageReaders] = useState<MessageReader[] | null>(null);
+  const [composerSelection, setComposerSelection] = useState({ start: 0, end: 0 });
+  // Only controls the cursor right after inserting a mention
+  const [forcedSelection, setForcedSelection] = useState<{ start: number; end: number } | null>(null);
+  const [showAdminPicker, setShowAdminPicker] = useState(false);
+  const [groupBans, setGroupBans] = useState<GroupBan[]>([]);
+  const [managedMember, setManagedMember] = useState<GroupMember | null>(null);
+  const [banTarget, setBanTarget] = useState<GroupMember | null>(null);
+  const [editingGroupName, setEditingGroupName] = useState('');
+  const [editingGroupDescription, setEditingGroupDescription] = useState('');
+  const [isUploadingGroupImage, setIsUploadingGroupImage] = useState(false);
+  const [groupInvites, setGroupInvites] = useState<GroupInvite[]>([]);
+  const [showCreateInvite, setShowCreateInvite] = useState(false);
+  const [qrInviteUrl, setQrInviteUrl] = useState<string | null>(null);
+  const [serverCooldownUntil, setServerCooldownUntil] = useState(0);
+  const [nsfwBlurMode, setNsfwBlurMode] = useState<NsfwBlurMode>('always');
+  // null until preferences have loaded, so the age check doesn't flash
+  const [ageConfirmed, setAgeConfirmed] = useState<boolean | null>(null);
+  const [revealedMessageIds, setRevealedMessageIds] = useState<Set<string>>(new Set());
+  // Kept apart from revealedMessageIds so showing a blocked user's message doesn't also unblur its media
+  const [revealedBlockedIds, setRevealedBlockedIds] = useState<Set<string>>(new Set());
+  const [flaggedImageUrls, setFlaggedImageUrls] = useState<Set<string>>(new Set());
+  const scannedMessageIds = useRef(new Set<string>());
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+  const [groupReports, setGroupReports] = useState<GroupReport[]>([]);
+  const [now, setNow] = useState(Date.now());
 
   // Load mute state
   useEffect(() => {
@@ -124,27 +218,260 @@ export default function ConversationScreen() {
     fetchGroupSettings();
   }, [activeChat?.id, activeChat?.type]);
 
-  // Scroll to bottom when messages change
+  // Reload on focus so changes made in settings apply when coming back
+  useFocusEffect(
+    useCallback(() => {
+      contentPreferences.load().then(prefs => {
+        setNsfwBlurMode(prefs.nsfwBlur);
+        setAgeConfirmed(prefs.ageConfirmed);
+      });
+    }, [])
+  );
+
+  useEffect(() => {
+    setRevealedMessageIds(new Set());
+    setRevealedBlockedIds(new Set());
+  }, [activeChat?.id]);
+
+  const isNsfwGroup = activeChat?.type === 'group' && !!groupSettings?.isNsfw;
+  const blurNsfw = !!activeChat && shouldBlurNsfw(nsfwBlurMode, activeChat.type);
+
+  // Scan incoming images when the group has the nudity sensor on; flagged ones are blurred.
+  // Without a registered classifier the sensor can't run, so the setting has no effect.
+  const nudityClassifierAvailable = hasNudityClassifier();
+  const nuditySensorOn = activeChat?.type === 'group' && !!groupSettings?.nuditySensor && nudityClassifierAvailable;
+  useEffect(() => {
+    scannedMessageIds.current.clear();
+    setFlaggedImageUrls(new Set());
+  }, [activeChat?.id, nuditySensorOn]);
+
+  // Only messages that haven't been scanned yet are sent to the classifier
+  useEffect(() => {
+    if (!nuditySensorOn) return;
+    let cancelled = false;
+    const scanIncoming = async () => {
+      const pending = messages.filter(message =>
+        message.sender.id !== user?.id && !message.deletedAt && !scannedMessageIds.current.has(message.id)
+      );
+
+      for (const message of pending) {
+        const flagged: string[] = [];
+        for (const attachment of message.attachments ?? []) {
+          if (attachment.type !== 'image' && attachment.type !== 'gif') continue;
+          const uri = getImageUrl(attachment.url);
+          if (!uri) continue;
+          const result = await scanImage(uri);
+          if (cancelled) return;
+          if (result && result.verdict !== 'allow') flagged.push(attachment.url);
+        }
+        scannedMessageIds.current.add(message.id);
+        if (flagged.length > 0) {
+          setFlaggedImageUrls(prev => new Set([...prev, ...flagged]));
+        }
+      }
+    };
+    scanIncoming();
+    return () => {
+      cancelled = true;
+    };
+  }, [nuditySensorOn, messages, user?.id]);
+
+  const handleRevealMessage = (messageId: string) => {
+    setRevealedMessageIds(prev => new Set(prev).add(messageId));
+  };
+
+  const handleRevealBlocked = (messageId: string) => {
+    setRevealedBlockedIds(prev => new Set(prev).add(messageId));
+  };
+
+  const handleConfirmAge = async () => {
+    setAgeConfirmed(true);
+    await contentPreferences.update({ ageConfirmed: true });
+  };
+
+  // Announcement groups: only admins get a composer
+  const isReadOnly = activeChat?.type === 'group' && !!groupSettings?.adminOnlyChat && !isAdmin;
+  const blockedDMUser = activeChat?.type === 'dm' && isUserBlocked(activeChat.data.otherUser?.id)
+    ? activeChat.data.otherUser
+    : null;
+
+  // Slow mode applies to non-admins only
+  const cooldownSeconds = activeChat?.type === 'group' && !isAdmin ? groupSettings?.messageCooldown || 0 : 0;
+
+  useEffect(() => {
+    setServerCooldownUntil(0);
+  }, [activeChat?.id]);
+
+  // Counts down from the last message we sent, or from whatever the server told us to wait
+  const cooldownUntil = useMemo(() => {
+    if (!cooldownSeconds) return 0;
+    const lastOwn = messages.reduce((latest, message) => {
+      if (message.sender.id !== user?.id || message.sendState === 'failed') return latest;
+      return Math.max(latest, new Date(message.createdAt).getTime());
+    }, 0);
+    // Clamp in case the device clock is behind the server's
+    const fromLastOwn = lastOwn ? Math.min(lastOwn + cooldownSeconds * 1000, Date.now() + cooldownSeconds * 1000) : 0;
+    return Math.max(fromLastOwn, serverCooldownUntil);
+  }, [cooldownSeconds, messages, user?.id, serverCooldownUntil]);
+
+  const cooldownRemaining = Math.max(0, Math.ceil((cooldownUntil - now) / 1000));
+  const isCoolingDown = cooldownRemaining > 0 && !editingMessage;
+
+  useEffect(() => {
+    if (cooldownUntil <= Date.now()) return;
+    setNow(Date.now());
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= cooldownUntil) clearInterval(interval);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [cooldownUntil]);
+
+  const handleSlowModeRejection = (retryAfter: number) => {
+    const waitSeconds = Math.max(1, Math.ceil(retryAfter));
+    setServerCooldownUntil(Date.now() + waitSeconds * 1000);
+    Alert.alert('Slow mode', `Slow mode is on. You can send another message in ${formatCooldown(waitSeconds)}.`);
+  };
+
+  // Scroll to bottom when a new message arrives (not when older pages are prepended)
+  const lastMessageId = messages[messages.length - 1]?.id;
   useEffect(() => {
-    if (messages.length > 0) {
+    if (lastMessageId) {
       setTimeout(() => {
         flatListRef.current?.scrollToEnd({ animated: true });
       }, 100);
     }
-  }, [messages.length]);
+  }, [lastMessageId]);
+
+  // Mark the conversation read while it's open and the app is in the foreground
+  useFocusEffect(
+    useCallback(() => {
+      if (!lastMessageId) return;
+      if (AppState.currentState === 'active') {
+        markChatRead();
+      }
+      const subscription = AppState.addEventListener('change', state => {
+        if (state === 'active') {
+          markChatRead();
+        }
+      });
+      return () => subscription.remove();
+    }, [lastMessageId, markChatRead])
+  );
+
+  // Load older pages when scrolled near the top. The list opens at the top and then scrolls
+  // to the newest message, so nothing loads until the user has scrolled themselves.
+  const userScrolledRef = useRef(false);
+  useEffect(() => {
+    userScrolledRef.current = false;
+  }, [activeChat?.id]);
+
+  const handleStartReached = useCallback(() => {
+    if (userScrolledRef.current && hasMore && !searchQuery) {
+      loadOlderMessages();
+    }
+  }, [hasMore, searchQuery, loadOlderMessages]);
 
   // Fetch group members
-  const fetchGroupMembers = async () => {
+  const fetchGroupMembers = useCallback(async (): Promise<GroupMember[]> => {
     if (activeChat?.type === 'group') {
       try {
         const res = await apiClient.get<{ members: GroupMember[] }>(`/api/groups/${activeChat.id}/members`);
         if (res.data?.members) {
           setGroupMembers(res.data.members);
+          return res.data.members;
         }
       } catch (error) {
         console.error('Failed to fetch group members:', error);
       }
     }
+    return [];
+  }, [activeChat?.id, activeChat?.type]);
+
+  const fetchGroupBans = async () => {
+    if (activeChat?.type !== 'group') return;
+    try {
+      const res = await apiClient.get<{ bans: GroupBan[] }>(`/api/groups/${activeChat.id}/bans`);
+      if (res.data?.bans) {
+        setGroupBans(res.data.bans);
+      }
+    } catch (error) {
+      console.error('Failed to fetch group bans:', error);
+    }
+  };
+
+  const fetchGroupReports = async () => {
+    if (activeChat?.type !== 'group') return;
+    try {
+      const res = await apiClient.get<{ reports: GroupReport[] }>(`/api/groups/${activeChat.id}/reports?status=open`);
+      if (res.data?.reports) {
+        setGroupReports(res.data.reports);
+      }
+    } catch (error) {
+      console.error('Failed to fetch group reports:', error);
+    }
+  };
+
+  const fetchGroupInvites = async () => {
+    if (activeChat?.type !== 'group') return;
+    try {
+      const res = await apiClient.get<{ invites: GroupInvite[] }>(`/api/groups/${activeChat.id}/invites`);
+      if (res.data?.invites) {
+        setGroupInvites(res.data.invites);
+      }
+    } catch (error) {
+      console.error('Failed to fetch group invites:', error);
+    }
+  };
+
+  // Members back @mention autocomplete, so load them with the chat
+  useEffect(() => {
+    setGroupMembers([]);
+    fetchGroupMembers();
+  }, [fetchGroupMembers]);
+
+  // Members matching the @mention being typed at the cursor
+  const mentionSuggestions = useMemo(() => {
+    if (activeChat?.type !== 'group' || editingMessage) return [];
+
+    const mention = getMentionQuery(newMessage, composerSelection.start);
+    if (!mention) return [];
+
+    const query = mention.query.toLowerCase();
+    return groupMembers
+      .filter(member => member.user.username && member.user.id !== user?.id)
+      .filter(member =>
+        member.user.username!.toLowerCase().startsWith(query) ||
+        member.user.displayUsername?.toLowerCase().startsWith(query) ||
+        member.user.name.toLowerCase().startsWith(query)
+      )
+      .slice(0, 5);
+  }, [activeChat?.type, editingMessage, newMessage, composerSelection.start, groupMembers, user?.id]);
+
+  const handleSelectMention = (member: GroupMember) => {
+    const mention = getMentionQuery(newMessage, composerSelection.start);
+    if (!mention || !member.user.username) return;
+
+    const inserted = `@${member.user.username} `;
+    const text = newMessage.substring(0, mention.start) + inserted + newMessage.substring(composerSelection.start);
+    const cursor = mention.start + inserted.length;
+    setNewMessage(text);
+    setComposerSelection({ start: cursor, end: cursor });
+    setForcedSelection({ start: cursor, end: cursor });
+  };
+
+  // Open the profile of a mentioned user, if they're in this chat
+  const handleMentionPress = (username: string) => {
+    const lower = username.toLowerCase();
+    if (activeChat?.type === 'group') {
+      const member = groupMembers.find(m => m.user.username?.toLowerCase() === lower);
+      if (member) {
+        handleUserPress(member.user as Message['sender']);
+      }
+    } else if (activeChat?.data.otherUser?.username?.toLowerCase() === lower) {
+      handleUserPress(activeChat.data.otherUser as Message['sender']);
+    }
   };
 
   // Handle file upload
@@ -192,8 +519,37 @@ export default function ConversationScreen() {
     }
   };
 
+  // Asks before sending an image the nudity sensor flagged; blocks clear matches outright
+  const checkOutgoingImage = async (uri: string): Promise<boolean> => {
+    const result = await scanImage(uri);
+    if (!result || result.verdict === 'allow') return true;
+
+    if (result.verdict === 'block') {
+      Alert.alert('Image Blocked', 'This group does not allow nudity, so this image cannot be sent.');
+      return false;
+    }
+    return new Promise(resolve => {
+      Alert.alert(
+        'Possible Nudity',
+        'This image may contain nudity. Members of this group will see it blurred. Send anyway?',
+        [
+          { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+          { text: 'Send Anyway', onPress: () => resolve(true) },
+        ],
+        { cancelable: false }
+      );
+    });
+  };
+
   // Upload file to server
   const uploadFile = async (uri: string, name: string, type: string) => {
+    if (nuditySensorOn && type.startsWith('image/')) {
+      setIsUploading(true);
+      const allowed = await checkOutgoingImage(uri);
+      setIsUploading(false);
+      if (!allowed) return;
+    }
+
     setIsUploading(true);
     try {
       const formData = new FormData();
@@ -246,10 +602,38 @@ export default function ConversationScreen() {
     setSelectedMessage(null);
   };
 
+  // Only our own messages that reached the server can be edited or deleted
+  const canModifySelected = !!selectedMessage &&
+    selectedMessage.sender?.id === user?.id &&
+    !selectedMessage.deletedAt &&
+    !selectedMessage.sendState;
+
   // Handle long press on message
   const handleMessageLongPress = (message: Message) => {
     setSelectedMessage(message);
     setShowMessageActions(true);
+    setMessageReaders(null);
+
+    // Group senders can see who has read their message
+    const canSeeReaders = activeChat?.type === 'group' &&
+      readReceiptsEnabled &&
+      message.sender?.id === user?.id &&
+      !message.deletedAt &&
+      !message.sendState;
+    if (canSeeReaders) {
+      fetchMessageReaders(message.id);
+    }
+  };
+
+  const fetchMessageReaders = async (messageId: string) => {
+    try {
+      const res = await apiClient.get<{ readers: MessageReader[] }>(`${API_ENDPOINTS.messages}/${messageId}/readers`);
+      if (res.data?.readers) {
+        setMessageReaders(res.data.readers);
+      }
+    } catch (error) {
+      console.error('Failed to fetch message readers:', error);
+    }
   };
 
   // Open user profile
@@ -259,6 +643,117 @@ export default function ConversationScreen() {
     setShowUserInfo(true);
   };
 
+  const leaveAndClose = async (newAdminId?: string) => {
+    if (activeChat?.type !== 'group') return;
+    const result = await leaveGroup(activeChat.id, newAdminId);
+    if (result.success) {
+      router.back();
+    } else {
+      Alert.alert('Error', result.error || 'Failed to leave group');
+    }
+  };
+
+  const confirmDeleteGroup = () => {
+    if (activeChat?.type !== 'group') return;
+    const groupId = activeChat.id;
+    Alert.alert(
+      'Delete Group',
+      'This permanently deletes the group and its messages for every member.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete Group',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await deleteGroup(groupId);
+            if (result.success) {
+              router.back();
+            } else {
+              Alert.alert('Error', result.error || 'Failed to delete group');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // The last admin has to hand the group over (or delete it) before leaving
+  const handleLeaveGroup = async () => {
+    setShowOptionsMenu(false);
+    if (activeChat?.type !== 'group') return;
+
+    if (isAdmin) {
+      const members = groupMembers.length > 0 ? groupMembers : await fetchGroupMembers();
+      const others = members.filter(m => m.user.id !== user?.id);
+
+      if (others.length === 0) {
+        Alert.alert(
+          'Leave Group',
+          'You are the only member. Leaving will delete the group.',
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Delete Group', style: 'destructive', onPress: confirmDeleteGroup },
+          ]
+        );
+        return;
+      }
+
+      if (!others.some(m => m.role === 'ADMIN')) {
+        Alert.alert(
+          'Choose a New Admin',
+          'You are the last admin. Promote another member before leaving, or delete the group for everyone.',
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Choose Admin', onPress: () => setShowAdminPicker(true) },
+            { text: 'Delete Group', style: 'destructive', onPress: confirmDeleteGroup },
+          ]
+        );
+        return;
+      }
+    }
+
+    Alert.alert('Leave Group', `Leave ${activeChat.data.name}? You can rejoin with an invite link.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Leave', style: 'destructive', onPress: () => leaveAndClose() },
+    ]);
+  };
+
+  const handlePickNewAdmin = (member: GroupMember) => {
+    const name = member.user.displayUsername || member.user.username || member.user.name;
+    Alert.alert('Leave Group', `Make ${name} an admin and leave the group?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Leave',
+        style: 'destructive',
+        onPress: () => {
+          setShowAdminPicker(false);
+          leaveAndClose(member.user.id);
+        },
+      },
+    ]);
+  };
+
+  const handleDeleteDM = () => {
+    setShowOptionsMenu(false);
+    if (activeChat?.type !== 'dm') return;
+    const dmId = activeChat.id;
+    Alert.alert('Delete Chat', 'Delete this conversation? This cannot be undone.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await deleteDM(dmId);
+          if (result.success) {
+            router.back();
+          } else {
+            Alert.alert('Error', result.error || 'Failed to delete chat');
+          }
+        },
+      },
+    ]);
+  };
+
   // Open media fullscreen
   const handleMediaPress = (type: 'image' | 'video' | 'gif', url: string, name: string) => {
     setSelectedMedia({ type, url, name });
@@ -268,11 +763,31 @@ export default function ConversationScreen() {
   // Save group settings
   const handleSaveGroupSettings = async () => {
     if (!activeChat || activeChat.type !== 'group') return;
+
+    const name = editingGroupName.trim();
+    const description = editingGroupDescription.trim();
+    if (!name) {
+      Alert.alert('Error', 'Group name is required');
+      return;
+    }
     
     try {
+      // Name and description live on the group itself, not in its settings
+      const profileChanged = name !== activeChat.data.name ||
+        description !== (activeChat.data.description || '');
+      if (profileChanged) {
+        const profileRes = await apiClient.put(`/api/groups/${activeChat.id}`, { name, description });
+        if (profileRes.status !== 200) {
+          Alert.alert('Error', profileRes.error || 'Failed to update group');
+          return;
+        }
+        updateGroup(activeChat.id, { name, description: description || null });
+      }
+
       const res = await apiClient.put(`/api/groups/${activeChat.id}/settings`, editingGroupSettings);
       if (res.status === 200) {
         setGroupSettings(editingGroupSettings);
+        updateGroup(activeChat.id, { adminOnlyChat: !!editingGroupSettings.adminOnlyChat });
         setShowGroupSettings(false);
         Alert.alert('Success', 'Group settings updated');
         refreshAll();
@@ -284,6 +799,357 @@ export default function ConversationScreen() {
     }
   };
 
+  const getMemberName = (member: { user: GroupMember['user'] }) =>
+    member.user.displayUsername || member.user.username || member.user.name;
+
+  const handleChangeMemberRole = async (member: GroupMember, role: GroupMember['role']) => {
+    setManagedMember(null);
+    if (activeChat?.type !== 'group') return;
+
+    try {
+      const res = await apiClient.put(`/api/groups/${activeChat.id}/members/${member.id}`, { role });
+      if (res.status === 200) {
+        setGroupMembers(prev => prev.map(m => m.id === member.id ? { ...m, role } : m));
+      } else {
+        Alert.alert('Error', res.error || 'Failed to update role');
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to update role');
+    }
+  };
+
+  const handleRemoveMember = (member: GroupMember) => {
+    setManagedMember(null);
+    if (activeChat?.type !== 'group') return;
+    const groupId = activeChat.id;
+
+    Alert.alert('Remove Member', `Remove ${getMemberName(member)} from the group? They can rejoin with an invite link.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const res = await apiClient.delete(`/api/groups/${groupId}/members/${member.id}`);
+            if (res.status === 200 || res.status === 204) {
+              setGroupMembers(prev => prev.filter(m => m.id !== member.id));
+              refreshAll();
+            } else {
+              Alert.alert('Error', res.error || 'Failed to remove member');
+            }
+          } catch (error) {
+            Alert.alert('Error', 'Failed to remove member');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleStartBan = (member: GroupMember) => {
+    setManagedMember(null);
+    setBanTarget(member);
+  };
+
+  const handleBanMember = async (
+    member: GroupMember,
+    options: { reason?: string; durationHours?: number }
+  ) => {
+    if (activeChat?.type !== 'group') return;
+
+    try {
+      const res = await apiClient.post(`/api/groups/${activeChat.id}/bans`, {
+        userId: member.user.id,
+        ...options,
+      });
+      if (res.status === 200 || res.status === 201) {
+        setBanTarget(null);
+        setGroupMembers(prev => prev.filter(m => m.id !== member.id));
+        fetchGroupBans();
+        refreshAll();
+      } else {
+        Alert.alert('Error', res.error || 'Failed to ban member');
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to ban member');
+    }
+  };
+
+  const handleStartReport = (target: ReportTarget) => {
+    setShowOptionsMenu(false);
+    setShowMessageActions(false);
+    setSelectedMessage(null);
+    setShowUserInfo(false);
+    setSelectedUser(null);
+    setReportTarget(target);
+  };
+
+  // The reported user and the evidence attached for each kind of report
+  const getReportPayload = (target: ReportTarget) => {
+    switch (target.type) {
+      case 'message':
+        return { reportedUserId: target.message.sender.id, messageIds: [target.message.id] };
+      case 'user':
+        return {
+          reportedUserId: target.user.id,
+          messageIds: messages
+            .filter(m => m.sender.id === target.user.id && !m.sendState)
+            .slice(-REPORT_USER_MESSAGE_LIMIT)
+            .map(m => m.id),
+        };
+      case 'group':
+        return { messageIds: [] };
+    }
+  };
+
+  const handleSubmitReport = async (category: ReportCategory, note?: string) => {
+    if (!reportTarget || !activeChat) return;
+
+    try {
+      const res = await apiClient.post(API_ENDPOINTS.reports, {
+        ...getReportPayload(reportTarget),
+        category,
+        note,
+        ...(activeChat.type === 'group' ? { groupId: activeChat.id } : { dmId: activeChat.id }),
+      });
+      if (res.status === 200 || res.status === 201) {
+        setReportTarget(null);
+        Alert.alert('Report Sent', 'Thanks for letting us know. We will review this report.');
+      } else {
+        Alert.alert('Error', res.error || 'Failed to send report');
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to send report');
+    }
+  };
+
+  const handleToggleBlock = (target: Message['sender']) => {
+    const name = target.displayUsername || target.username || target.name;
+
+    if (isUserBlocked(target.id)) {
+      Alert.alert('Unblock User', `Unblock ${name}? They will be able to message you again.`, [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Unblock',
+          onPress: async () => {
+            const result = await unblockUser(target.id);
+            if (!result.success) {
+              Alert.alert('Error', result.error || 'Failed to unblock user');
+            }
+          },
+        },
+      ]);
+      return;
+    }
+
+    Alert.alert(
+      'Block User',
+      `Block ${name}? They will not be able to message you, and their messages in groups will be hidden.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Block',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await blockUser({
+              id: target.id,
+              name: target.name,
+              username: target.username,
+              displayUsername: target.displayUsername,
+              image: target.image,
+            });
+            if (!result.success) {
+              Alert.alert('Error', result.error || 'Failed to block user');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleResolveReport = async (report: GroupReport, status: 'resolved' | 'dismissed') => {
+    if (activeChat?.type !== 'group') return;
+    try {
+      const res = await apiClient.put(`/api/groups/${activeChat.id}/reports/${report.id}`, { status });
+      if (res.status === 200) {
+        setGroupReports(prev => prev.filter(r => r.id !== report.id));
+      } else {
+        Alert.alert('Error', res.error || 'Failed to update report');
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to update report');
+    }
+  };
+
+  const handleUnban = (ban: GroupBan) => {
+    if (activeChat?.type !== 'group') return;
+    const groupId = activeChat.id;
+
+    Alert.alert('Unban', `Allow ${getMemberName(ban)} to join the group again?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Unban',
+        onPress: async () => {
+          try {
+            const res = await apiClient.delete(`/api/groups/${groupId}/bans/${ban.user.id}`);
+            if (res.status === 200 || res.status === 204) {
+              setGroupBans(prev => prev.filter(b => b.id !== ban.id));
+            } else {
+              Alert.alert('Error', res.error || 'Failed to unban');
+            }
+          } catch (error) {
+            Alert.alert('Error', 'Failed to unban');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handlePickGroupImage = async () => {
+    try {
+      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+
+      if (status !== 'granted') {
+        Alert.alert('Permission Required', 'Please grant access to your photo library to change the group picture.');
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsEditing: true,
+        aspect: [1, 1],
+        quality: 0.8,
+      });
+
+      if (!result.canceled && result.assets[0]) {
+        await uploadGroupImage(result.assets[0].uri);
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to pick image');
+    }
+  };
+
+  // Same multipart flow as the profile picture upload
+  const uploadGroupImage = async (uri: string) => {
+    if (activeChat?.type !== 'group') return;
+    const groupId = activeChat.id;
+    setIsUploadingGroupImage(true);
+
+    try {
+      const formData = new FormData();
+      const filename = uri.split('/').pop() || 'group.jpg';
+      const match = /\.(\w+)$/.exec(filename);
+      const type = match ? `image/${match[1]}` : 'image/jpeg';
+
+      formData.append('image', {
+        uri,
+        name: filename,
+        type,
+      } as any);
+
+      const cookies = authClient.getCookie();
+      const headers: Record<string, string> = {
+        'Content-Type': 'multipart/form-data',
+      };
+      if (cookies) {
+        headers['Cookie'] = cookies;
+      }
+
+      const response = await fetch(`${API_BASE_URL}/api/groups/${groupId}/image`, {
+        method: 'POST',
+        body: formData,
+        headers,
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (response.ok && data.image) {
+        updateGroup(groupId, { image: data.image });
+      } else {
+        Alert.alert('Error', data.error || 'Failed to upload image');
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to upload image');
+    } finally {
+      setIsUploadingGroupImage(false);
+    }
+  };
+
+  const handleCopyInvite = async (url: string) => {
+    await Clipboard.setStringAsync(url);
+    Alert.alert('Copied', 'Invite link copied to clipboard');
+  };
+
+  const handleShareInvite = async (url: string) => {
+    const name = activeChat?.type === 'group' ? activeChat.data.name : 'this group';
+    await Share.share({ message: `Join ${name} on Nox Chat: ${url}` });
+  };
+
+  // Invalidates the current link so it can no longer be used to join
+  const handleResetInviteCode = () => {
+    if (activeChat?.type !== 'group') return;
+    const groupId = activeChat.id;
+
+    Alert.alert('Reset Invite Link', 'The current link will stop working. Anyone who already joined stays in the group.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Reset',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const res = await apiClient.post<{ inviteCode: string }>(`/api/groups/${groupId}/invite-code`);
+            if (res.data?.inviteCode) {
+              updateGroup(groupId, { inviteCode: res.data.inviteCode });
+            } else {
+              Alert.alert('Error', res.error || 'Failed to reset invite link');
+            }
+          } catch (error) {
+            Alert.alert('Error', 'Failed to reset invite link');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleCreateInvite = async (options: { expiresInHours?: number; maxUses?: number }) => {
+    if (activeChat?.type !== 'group') return;
+
+    try {
+      const res = await apiClient.post<{ invite: GroupInvite }>(`/api/groups/${activeChat.id}/invites`, options);
+      if (res.data?.invite) {
+        setGroupInvites(prev => [res.data!.invite, ...prev]);
+        setShowCreateInvite(false);
+      } else {
+        Alert.alert('Error', res.error || 'Failed to create invite');
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to create invite');
+    }
+  };
+
+  const handleRevokeInvite = (invite: GroupInvite) => {
+    if (activeChat?.type !== 'group') return;
+    const groupId = activeChat.id;
+
+    Alert.alert('Revoke Invite', 'This link will stop working immediately.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Revoke',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const res = await apiClient.delete(`/api/groups/${groupId}/invites/${invite.id}`);
+            if (res.status === 200 || res.status === 204) {
+              setGroupInvites(prev => prev.filter(i => i.id !== invite.id));
+            } else {
+              Alert.alert('Error', res.error || 'Failed to revoke invite');
+            }
+          } catch (error) {
+            Alert.alert('Error', 'Failed to revoke invite');
+          }
+        },
+      },
+    ]);
+  };
+
   // Filter messages for search - memoized for performance
   const filteredMessages = useMemo(() => 
     searchQuery.trim()
@@ -292,28 +1158,192 @@ export default function ConversationScreen() {
     [messages, searchQuery]
   );
 
+  // Kept in a ref so jump-to-reply can look up indexes after older pages load
+  const filteredMessagesRef = useRef<Message[]>(filteredMessages);
+  useEffect(() => {
+    filteredMessagesRef.current = filteredMessages;
+  }, [filteredMessages]);
+
+  // Clear the reply highlight timer on unmount
+  useEffect(() => {
+    return () => {
+      if (highlightTimerRef.current) {
+        clearTimeout(highlightTimerRef.current);
+      }
+    };
+  }, []);
+
   // Key extractor - memoized for performance
   const keyExtractor = useCallback((item: Message) => item.id, []);
 
   const handleSend = async () => {
-    if ((!newMessage.trim() && pendingAttachments.length === 0) || isSending) return;
+    if (editingMessage) {
+      await handleSaveEdit();
+      return;
+    }
+    if (!newMessage.trim() && pendingAttachments.length === 0) return;
+    if (isCoolingDown) return;
     
     const messageText = newMessage.trim();
     setNewMessage('');
+    notifyTyping(false);
     const attachmentsToSend = [...pendingAttachments];
     setPendingAttachments([]);
-    setIsSending(true);
+    const replyTarget = replyingTo;
+    setReplyingTo(null);
     
     try {
-      // TODO: Add attachment support to sendMessage
-      await sendMessage(messageText);
+      // The message shows up immediately; failures stay on the bubble for retry
+      const result = await sendMessage(messageText, attachmentsToSend, replyTarget);
+      if (result.retryAfter !== undefined) {
+        handleSlowModeRejection(result.retryAfter);
+      } else if (!result.success && !result.queued && result.error) {
+        Alert.alert('Message not sent', result.error);
+      }
     } catch (error) {
       console.error('Failed to send message:', error);
       setNewMessage(messageText);
       setPendingAttachments(attachmentsToSend);
-    } finally {
-      setIsSending(false);
+      setReplyingTo(replyTarget);
+    }
+  };
+
+  const handleStartReply = (message: Message) => {
+    setShowMessageActions(false);
+    setSelectedMessage(null);
+    if (editingMessage) {
+      handleCancelEdit();
+    }
+    setReplyingTo(message);
+  };
+
+  // Scroll to the quoted message, paging back through history if it isn't loaded yet
+  const handleReplyPress = async (reply: MessageReply) => {
+    if (searchQuery) {
+      setShowSearch(false);
+      setSearchQuery('');
+    }
+
+    const found = await loadMessagesUntil(reply.id);
+    if (!found) {
+      Alert.alert('Message unavailable', 'The original message could not be found.');
+      return;
     }
+
+    // Wait for the list to render any newly loaded pages
+    setTimeout(() => {
+      const index = filteredMessagesRef.current.findIndex(m => m.id === reply.id);
+      if (index === -1) return;
+
+      flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+      setHighlightedMessageId(reply.id);
+      if (highlightTimerRef.current) {
+        clearTimeout(highlightTimerRef.current);
+      }
+      highlightTimerRef.current = setTimeout(() => setHighlightedMessageId(null), 2000);
+    }, 150);
+  };
+
+  // Items far off screen haven't been measured yet; jump close and try again
+  const handleScrollToIndexFailed = useCallback((info: { index: number; averageItemLength: number }) => {
+    flatListRef.current?.scrollToOffset({ offset: info.averageItemLength * info.index, animated: false });
+    setTimeout(() => {
+      flatListRef.current?.scrollToIndex({ index: info.index, animated: true, viewPosition: 0.5 });
+    }, 100);
+  }, []);
+
+  // Start editing one of our own messages in the composer
+  const handleStartEdit = (message: Message) => {
+    setShowMessageActions(false);
+    setSelectedMessage(null);
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setNewMessage(message.content);
+  };
+
+  const handleCancelEdit = () => {
+    setEditingMessage(null);
+    setNewMessage('');
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingMessage) return;
+
+    const messageText = newMessage.trim();
+    if (!messageText) {
+      Alert.alert('Error', 'Message cannot be empty');
+      return;
+    }
+    if (messageText === editingMessage.content) {
+      handleCancelEdit();
+      return;
+    }
+
+    const original = editingMessage;
+    setEditingMessage(null);
+    setNewMessage('');
+
+    const result = await editMessage(original.id, messageText);
+    if (!result.success) {
+      setEditingMessage(original);
+      setNewMessage(messageText);
+      Alert.alert('Error', result.error || 'Failed to edit message');
+    }
+  };
+
+  const handleDeleteMessage = (message: Message) => {
+    setShowMessageActions(false);
+    setSelectedMessage(null);
+    Alert.alert('Delete Message', 'Delete this message for everyone?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await deleteMessage(message.id);
+          if (!result.success) {
+            Alert.alert('Error', result.error || 'Failed to delete message');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleReaction = async (message: Message, emoji: string) => {
+    setShowMessageActions(false);
+    setSelectedMessage(null);
+    setReactionTarget(null);
+    const result = await toggleReaction(message.id, emoji);
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to update reaction');
+    }
+  };
+
+  // Swap the actions menu for the full emoji picker
+  const handleOpenEmojiPicker = (message: Message) => {
+    setShowMessageActions(false);
+    setSelectedMessage(null);
+    setReactionTarget(message);
+  };
+
+  const handleRetryMessage = async (message: Message) => {
+    if (!message.clientId) return;
+    if (isCoolingDown) {
+      Alert.alert('Slow mode', `You can send another message in ${formatCooldown(cooldownRemaining)}.`);
+      return;
+    }
+    const result = await retryMessage(message.clientId);
+    if (result.retryAfter !== undefined) {
+      handleSlowModeRejection(result.retryAfter);
+    }
+  };
+
+  const handleDiscardMessage = (message: Message) => {
+    if (!message.clientId) return;
+    Alert.alert('Discard Message', 'This message will not be sent.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: () => discardMessage(message.clientId!) },
+    ]);
   };
 
   const handleToggleMute = async () => {
@@ -364,6 +1394,29 @@ export default function ConversationScreen() {
     }
   };
 
+  // Names are hidden in anonymous groups
+  const getTypingText = () => {
+    if (typingUsers.length === 0) return null;
+
+    const isAnonymous = groupSettings?.anonymousMode && activeChat?.type === 'group';
+    if (typingUsers.length > 2 || (isAnonymous && typingUsers.length > 1)) {
+      return `${typingUsers.length} people are typing…`;
+    }
+    if (isAnonymous) return 'Someone is typing…';
+    if (typingUsers.length === 2) {
+      return `${typingUsers[0].name} and ${typingUsers[1].name} are typing…`;
+    }
+    return `${typingUsers[0].name} is typing…`;
+  };
+
+  const handleChangeText = (text: string) => {
+    setNewMessage(text);
+    // Edits aren't announced as typing
+    if (!editingMessage) {
+      notifyTyping(text.trim().length > 0);
+    }
+  };
+
   const formatTime = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -384,9 +1437,43 @@ export default function ConversationScreen() {
     }
   };
 
-  const renderAttachment = (attachment: Attachment, index: number, isOwn: boolean) => {
+  const renderSensitiveOverlay = () => (
+    <View style={styles.sensitiveOverlay}>
+      <Ionicons name="eye-off-outline" size={24} color={Colors.text} />
+      <Text style={styles.sensitiveTitle}>Sensitive content</Text>
+      <Text style={styles.sensitiveHint}>Tap to reveal</Text>
+    </View>
+  );
+
+  // onReveal is passed for NSFW messages that are still hidden
+  const renderAttachment = (attachment: Attachment, index: number, isOwn: boolean, onReveal?: () => void) => {
     const imageUrl = getImageUrl(attachment.url);
     const maxWidth = screenWidth * 0.65;
+
+    if (onReveal && (attachment.type === 'image' || attachment.type === 'gif' || attachment.type === 'video')) {
+      const height = attachment.type === 'video' ? maxWidth * 0.6 : maxWidth * 0.75;
+      return (
+        <TouchableOpacity
+          key={index}
+          style={[styles.mediaContainer, isOwn && styles.mediaContainerOwn]}
+          onPress={onReveal}
+          activeOpacity={0.9}
+        >
+          {attachment.type === 'video' ? (
+            <View style={[styles.videoContainer, { width: maxWidth, height }]} />
+          ) : (
+            <Image
+              source={{ uri: imageUrl }}
+              style={[styles.mediaImage, { width: maxWidth, height }]}
+              contentFit="cover"
+              blurRadius={50}
+              autoplay={false}
+            />
+          )}
+          {renderSensitiveOverlay()}
+        </TouchableOpacity>
+      );
+    }
     
     switch (attachment.type) {
       case 'image':
@@ -475,6 +1562,15 @@ export default function ConversationScreen() {
     }
   };
 
+  const getReplyPreview = (reply: MessageReply | Message) => {
+    if (reply.deletedAt) return 'Deleted message';
+    if (reply.content) return reply.content;
+    const hasAttachments = 'hasAttachments' in reply
+      ? reply.hasAttachments
+      : !!(reply as Message).attachments?.length;
+    return hasAttachments ? 'Attachment' : 'Message';
+  };
+
   const renderMessage = ({ item, index }: { item: Message; index: number }) => {
     // Provide safe fallbacks for sender data
     const senderId = item.sender?.id || 'unknown';
@@ -494,12 +1590,51 @@ export default function ConversationScreen() {
     const displayColor = isAnonymous ? Colors.textSecondary : item.sender?.nameColor;
     const displayImage = isAnonymous ? null : item.sender?.image;
 
-    const hasAttachments = item.attachments && item.attachments.length > 0;
+    const isPending = isOwn && item.sendState === 'pending';
+    const isFailed = isOwn && item.sendState === 'failed';
+    const isDeleted = !!item.deletedAt;
+
+    const hasAttachments = !isDeleted && item.attachments && item.attachments.length > 0;
+    const reply = !isDeleted ? item.replyTo : null;
+    const mentionsMe = !isOwn && !isDeleted && mentionsUser(item.content, user?.username);
+    // Our own messages are never blurred for us
+    const isHidden = !isOwn && !isDeleted && blurNsfw && (item.isNsfw || isNsfwGroup) &&
+      !revealedMessageIds.has(item.id);
+    const hasFlaggedMedia = !isOwn && !isDeleted && !revealedMessageIds.has(item.id) &&
+      !!item.attachments?.some(a => flaggedImageUrls.has(a.url));
+    const onReveal = isHidden || hasFlaggedMedia ? () => handleRevealMessage(item.id) : undefined;
+
+    // Ticks on our own DM messages; "read" is only shown while we share read receipts too
+    const showDelivery = isOwn && activeChat?.type === 'dm' && !item.sendState && !isDeleted;
+    const deliveryStatus = item.deliveryStatus === 'read' && !readReceiptsEnabled
+      ? 'delivered'
+      : item.deliveryStatus ?? 'sent';
+    const deliveryIcon = showDelivery
+      ? (deliveryStatus === 'sent' ? 'checkmark' : 'checkmark-done')
+      : null;
     const hasMediaAttachments = hasAttachments && 
       item.attachments!.some(a => a.type === 'image' || a.type === 'video' || a.type === 'gif');
     const hasFileAttachments = hasAttachments && 
       item.attachments!.some(a => a.type === 'file');
 
+    // Collapsing would reveal who wrote the message, so anonymous groups show it as usual
+    const isFromBlocked = !isOwn && !isAnonymous && isUserBlocked(senderId) && !revealedBlockedIds.has(item.id);
+    if (isFromBlocked) {
+      return (
+        <View>
+          {showDate && (
+            <View style={styles.dateContainer}>
+              <Text style={styles.dateText}>{formatDate(item.createdAt)}</Text>
+            </View>
+          )}
+          <TouchableOpacity style={styles.blockedMessage} onPress={() => handleRevealBlocked(item.id)}>
+            <Ionicons name="remove-circle-outline" size={14} color={Colors.textMuted} />
+            <Text style={styles.blockedMessageText}>Message from a blocked user. Tap to show</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
     return (
       <View>
         {showDate && (
@@ -509,7 +1644,11 @@ export default function ConversationScreen() {
         )}
         
         <TouchableOpacity 
-          style={[styles.messageContainer, isOwn && styles.messageContainerOwn]}
+          style={[
+            styles.messageContainer,
+            isOwn && styles.messageContainerOwn,
+            highlightedMessageId === item.id && styles.messageContainerHighlighted,
+          ]}
           onLongPress={() => handleMessageLongPress(item)}
           delayLongPress={500}
           activeOpacity={0.8}
@@ -542,12 +1681,32 @@ export default function ConversationScreen() {
               </TouchableOpacity>
             )}
 
+            {/* Quoted message this one replies to */}
+            {reply && (
+              <TouchableOpacity
+                style={[styles.replyQuote, isOwn && styles.replyQuoteOwn]}
+                onPress={() => handleReplyPress(reply)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.replyQuoteName} numberOfLines={1}>
+                  {isAnonymous
+                    ? 'Anonymous'
+                    : reply.sender.id === user?.id
+                      ? 'You'
+                      : reply.sender.displayUsername || reply.sender.username || reply.sender.name}
+                </Text>
+                <Text style={styles.replyQuoteText} numberOfLines={2}>
+                  {getReplyPreview(reply)}
+                </Text>
+              </TouchableOpacity>
+            )}
+
             {/* Media attachments (outside bubble) */}
             {hasMediaAttachments && (
               <View style={[styles.mediaAttachments, isOwn && styles.mediaAttachmentsOwn]}>
                 {item.attachments!
                   .filter(a => a.type === 'image' || a.type === 'video' || a.type === 'gif')
-                  .map((attachment, idx) => renderAttachment(attachment, idx, isOwn))}
+                  .map((attachment, idx) => renderAttachment(attachment, idx, isOwn, onReveal))}
               </View>
             )}
 
@@ -560,26 +1719,117 @@ export default function ConversationScreen() {
               </View>
             )}
             
+            {/* Tombstone for deleted messages */}
+            {isDeleted && (
+              <View style={[styles.messageBubble, styles.messageBubbleDeleted]}>
+                <View style={styles.deletedRow}>
+                  <Ionicons name="trash-outline" size={14} color={Colors.textMuted} />
+                  <Text style={styles.deletedText}>This message was deleted</Text>
+                </View>
+                <Text style={styles.messageTime}>{formatTime(item.createdAt)}</Text>
+              </View>
+            )}
+
+            {/* Hidden NSFW text */}
+            {isHidden && item.content && (
+              <TouchableOpacity
+                style={[styles.messageBubble, styles.messageBubbleOther, styles.sensitiveBubble]}
+                onPress={onReveal}
+                onLongPress={() => handleMessageLongPress(item)}
+                delayLongPress={500}
+              >
+                <Ionicons name="eye-off-outline" size={16} color={Colors.textSecondary} />
+                <Text style={styles.sensitiveBubbleText}>Sensitive message. Tap to reveal</Text>
+              </TouchableOpacity>
+            )}
+
             {/* Text content in bubble */}
-            {item.content && (
-              <View style={[styles.messageBubble, isOwn ? styles.messageBubbleOwn : styles.messageBubbleOther]}>
+            {!isDeleted && !isHidden && item.content && (
+              <View style={[
+                styles.messageBubble,
+                isOwn ? styles.messageBubbleOwn : styles.messageBubbleOther,
+                isPending && styles.messageBubblePending,
+                mentionsMe && styles.messageBubbleMention,
+              ]}>
                 <LinkText 
                   style={[styles.messageText, isOwn && styles.messageTextOwn]}
                   linkStyle={isOwn ? { color: '#FFFFFF', textDecorationColor: '#FFFFFF' } : undefined}
+                  mentionStyle={isOwn ? styles.mentionOwn : undefined}
+                  onMentionPress={handleMentionPress}
                 >
                   {item.content}
                 </LinkText>
-                <Text style={[styles.messageTime, isOwn && styles.messageTimeOwn]}>
+                <View style={styles.messageMeta}>
+                  {item.editedAt && (
+                    <Text style={[styles.messageTime, isOwn && styles.messageTimeOwn]}>(edited)</Text>
+                  )}
+                  <Text style={[styles.messageTime, isOwn && styles.messageTimeOwn]}>
+                    {formatTime(item.createdAt)}
+                  </Text>
+                  {isPending && (
+                    <Ionicons name="time-outline" size={12} color="rgba(11, 15, 13, 0.6)" />
+                  )}
+                  {deliveryIcon && (
+                    <Ionicons
+                      name={deliveryIcon}
+                      size={14}
+                      color={deliveryStatus === 'read' ? Colors.info : 'rgba(11, 15, 13, 0.6)'}
+                    />
+                  )}
+                </View>
+              </View>
+            )}
+
+            {/* Time only if no text content */}
+            {!item.content && hasAttachments && (
+              <View style={[styles.mediaMeta, isOwn && styles.mediaMetaOwn]}>
+                <Text style={[styles.mediaTime, isOwn && styles.mediaTimeOwn]}>
                   {formatTime(item.createdAt)}
                 </Text>
+                {isPending && (
+                  <Ionicons name="time-outline" size={12} color={Colors.textMuted} />
+                )}
+                {deliveryIcon && (
+                  <Ionicons
+                    name={deliveryIcon}
+                    size={14}
+                    color={deliveryStatus === 'read' ? Colors.info : Colors.textMuted}
+                  />
+                )}
+              </View>
+            )}
+
+            {/* Reactions */}
+            {!isDeleted && item.reactions && item.reactions.length > 0 && (
+              <View style={[styles.reactionsRow, isOwn && styles.reactionsRowOwn]}>
+                {item.reactions.map(reaction => (
+                  <TouchableOpacity
+                    key={reaction.emoji}
+                    style={[styles.reactionChip, reaction.reactedByMe && styles.reactionChipActive]}
+                    onPress={() => handleReaction(item, reaction.emoji)}
+                    disabled={!!item.sendState}
+                  >
+                    <Text style={styles.reactionEmoji}>{reaction.emoji}</Text>
+                    <Text style={[styles.reactionCount, reaction.reactedByMe && styles.reactionCountActive]}>
+                      {reaction.count}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
               </View>
             )}
 
-            {/* Time only if no text content */}
-            {!item.content && hasAttachments && (
-              <Text style={[styles.mediaTime, isOwn && styles.mediaTimeOwn]}>
-                {formatTime(item.createdAt)}
-              </Text>
+            {/* Failed send actions */}
+            {isFailed && (
+              <View style={styles.failedRow}>
+                <Ionicons name="alert-circle" size={14} color={Colors.error} />
+                <Text style={styles.failedText}>Not sent</Text>
+                <TouchableOpacity onPress={() => handleRetryMessage(item)}>
+                  <Text style={styles.failedAction}>Retry</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => handleDiscardMessage(item)}>
+                  <Text style={[styles.failedAction, styles.failedActionDanger]}>Discard</Text>
+                </TouchableOpacity>
+              </View>
             )}
           </View>
         </TouchableOpacity>
@@ -617,6 +1867,9 @@ export default function ConversationScreen() {
             {getChatTitle()}
           </Text>
           <Text style={styles.headerSubtitle}>{getChatSubtitle()}</Text>
+          {typingUsers.length > 0 && (
+            <Text style={styles.typingText} numberOfLines={1}>{getTypingText()}</Text>
+          )}
         </View>
         
         <TouchableOpacity style={styles.headerAction} onPress={() => setShowOptionsMenu(true)}>
@@ -651,7 +1904,14 @@ export default function ConversationScreen() {
               onPress={() => {
                 setShowOptionsMenu(false);
                 if (activeChat?.type === 'group') {
+                  setEditingGroupName(activeChat.data.name);
+                  setEditingGroupDescription(activeChat.data.description || '');
                   fetchGroupMembers();
+                  if (isAdmin) {
+                    fetchGroupBans();
+                    fetchGroupInvites();
+                    fetchGroupReports();
+                  }
                   setShowGroupSettings(true);
                 } else {
                   setSelectedUser(activeChat?.data.otherUser as Message['sender']);
@@ -676,7 +1936,20 @@ export default function ConversationScreen() {
               <Text style={styles.optionText}>Search Messages</Text>
             </TouchableOpacity>
             
-            <TouchableOpacity style={[styles.optionItem, styles.optionItemDanger]}>
+            {activeChat?.type === 'group' && !isAdmin && (
+              <TouchableOpacity
+                style={styles.optionItem}
+                onPress={() => handleStartReport({ type: 'group', group: activeChat.data })}
+              >
+                <Ionicons name="flag-outline" size={20} color={Colors.error} />
+                <Text style={[styles.optionText, styles.optionTextDanger]}>Report Group</Text>
+              </TouchableOpacity>
+            )}
+
+            <TouchableOpacity
+              style={[styles.optionItem, styles.optionItemDanger]}
+              onPress={activeChat?.type === 'group' ? handleLeaveGroup : handleDeleteDM}
+            >
               <Ionicons name="exit-outline" size={20} color={Colors.error} />
               <Text style={[styles.optionText, styles.optionTextDanger]}>
                 {activeChat?.type === 'group' ? 'Leave Group' : 'Delete Chat'}
@@ -714,6 +1987,19 @@ export default function ConversationScreen() {
             maintainVisibleContentPosition={{
               minIndexForVisible: 0,
             }}
+            onScrollBeginDrag={() => {
+              userScrolledRef.current = true;
+            }}
+            onStartReached={handleStartReached}
+            onStartReachedThreshold={0.3}
+            onScrollToIndexFailed={handleScrollToIndexFailed}
+            ListHeaderComponent={
+              olderMessagesLoading ? (
+                <View style={styles.olderMessagesLoading}>
+                  <ActivityIndicator size="small" color={Colors.primary} />
+                </View>
+              ) : null
+            }
             ListEmptyComponent={
               <View style={styles.emptyContainer}>
                 <Ionicons name="chatbubble-outline" size={48} color={Colors.textMuted} />
@@ -728,85 +2014,178 @@ export default function ConversationScreen() {
           />
         )}
 
-        {/* Pending attachments preview */}
-        {pendingAttachments.length > 0 && (
-          <View style={styles.attachmentPreview}>
-            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-              {pendingAttachments.map((attachment, index) => (
-                <View key={index} style={styles.attachmentPreviewItem}>
-                  {attachment.type === 'image' || attachment.type === 'gif' ? (
-                    <Image
-                      source={{ uri: getImageUrl(attachment.url) }}
-                      style={styles.attachmentPreviewImage}
-                      contentFit="cover"
-                    />
-                  ) : attachment.type === 'video' ? (
-                    <View style={styles.attachmentPreviewVideo}>
-                      <Ionicons name="videocam" size={20} color={Colors.text} />
-                    </View>
-                  ) : (
-                    <View style={styles.attachmentPreviewFile}>
-                      <Ionicons name="document" size={20} color={Colors.text} />
+        {blockedDMUser ? (
+          <View style={styles.readOnlyBanner}>
+            <Ionicons name="remove-circle-outline" size={18} color={Colors.textMuted} />
+            <Text style={styles.readOnlyText}>You blocked this user</Text>
+            <TouchableOpacity onPress={() => handleToggleBlock(blockedDMUser as Message['sender'])}>
+              <Text style={styles.unbanText}>Unblock</Text>
+            </TouchableOpacity>
+          </View>
+        ) : isReadOnly ? (
+          <View style={styles.readOnlyBanner}>
+            <Ionicons name="megaphone-outline" size={18} color={Colors.textMuted} />
+            <Text style={styles.readOnlyText}>Only admins can send messages</Text>
+          </View>
+        ) : (
+          <>
+            {/* Pending attachments preview */}
+            {pendingAttachments.length > 0 && (
+              <View style={styles.attachmentPreview}>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  {pendingAttachments.map((attachment, index) => (
+                    <View key={index} style={styles.attachmentPreviewItem}>
+                      {attachment.type === 'image' || attachment.type === 'gif' ? (
+                        <Image
+                          source={{ uri: getImageUrl(attachment.url) }}
+                          style={styles.attachmentPreviewImage}
+                          contentFit="cover"
+                        />
+                      ) : attachment.type === 'video' ? (
+                        <View style={styles.attachmentPreviewVideo}>
+                          <Ionicons name="videocam" size={20} color={Colors.text} />
+                        </View>
+                      ) : (
+                        <View style={styles.attachmentPreviewFile}>
+                          <Ionicons name="document" size={20} color={Colors.text} />
+                        </View>
+                      )}
+                      <TouchableOpacity 
+                        style={styles.removeAttachment}
+                        onPress={() => removeAttachment(index)}
+                      >
+                        <Ionicons name="close-circle" size={20} color={Colors.error} />
+                      </TouchableOpacity>
                     </View>
-                  )}
-                  <TouchableOpacity 
-                    style={styles.removeAttachment}
-                    onPress={() => removeAttachment(index)}
-                  >
-                    <Ionicons name="close-circle" size={20} color={Colors.error} />
-                  </TouchableOpacity>
+                  ))}
+                </ScrollView>
+              </View>
+            )}
+
+            {/* Reply banner */}
+            {replyingTo && (
+              <View style={styles.composerBanner}>
+                <Ionicons name="arrow-undo-outline" size={18} color={Colors.primary} />
+                <View style={styles.composerBannerInfo}>
+                  <Text style={styles.composerBannerTitle} numberOfLines={1}>
+                    Replying to {groupSettings?.anonymousMode && activeChat?.type === 'group'
+                      ? 'Anonymous'
+                      : replyingTo.sender.id === user?.id
+                        ? 'yourself'
+                        : replyingTo.sender.displayUsername || replyingTo.sender.username || replyingTo.sender.name}
+                  </Text>
+                  <Text style={styles.composerBannerText} numberOfLines={1}>
+                    {getReplyPreview(replyingTo)}
+                  </Text>
                 </View>
-              ))}
-            </ScrollView>
-          </View>
-        )}
+                <TouchableOpacity onPress={() => setReplyingTo(null)}>
+                  <Ionicons name="close" size={20} color={Colors.textMuted} />
+                </TouchableOpacity>
+              </View>
+            )}
 
-        {/* Input */}
-        <View style={styles.inputContainer}>
-          <TouchableOpacity 
-            style={styles.attachButton}
-            onPress={handlePickMedia}
-            disabled={isUploading}
-          >
-            {isUploading ? (
-              <ActivityIndicator size="small" color={Colors.primary} />
-            ) : (
-              <Ionicons name="image-outline" size={24} color={Colors.primary} />
+            {/* Editing banner */}
+            {editingMessage && (
+              <View style={styles.composerBanner}>
+                <Ionicons name="create-outline" size={18} color={Colors.primary} />
+                <View style={styles.composerBannerInfo}>
+                  <Text style={styles.composerBannerTitle}>Editing message</Text>
+                  <Text style={styles.composerBannerText} numberOfLines={1}>
+                    {editingMessage.content}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={handleCancelEdit}>
+                  <Ionicons name="close" size={20} color={Colors.textMuted} />
+                </TouchableOpacity>
+              </View>
             )}
-          </TouchableOpacity>
-          
-          <TouchableOpacity 
-            style={styles.attachButton}
-            onPress={handlePickFile}
-            disabled={isUploading}
-          >
-            <Ionicons name="attach-outline" size={24} color={Colors.primary} />
-          </TouchableOpacity>
-          
-          <View style={styles.inputWrapper}>
-            <TextInput
-              style={styles.input}
-              placeholder="Type a message..."
-              placeholderTextColor={Colors.textMuted}
-              value={newMessage}
-              onChangeText={setNewMessage}
-              multiline
-              maxLength={2000}
-            />
-          </View>
-          
-          <TouchableOpacity
-            style={[styles.sendButton, ((!newMessage.trim() && pendingAttachments.length === 0) || isSending) && styles.sendButtonDisabled]}
-            onPress={handleSend}
-            disabled={(!newMessage.trim() && pendingAttachments.length === 0) || isSending}
-          >
-            {isSending ? (
-              <ActivityIndicator size="small" color={Colors.background} />
-            ) : (
-              <Ionicons name="send" size={20} color={Colors.background} />
+
+            {/* Mention autocomplete */}
+            {mentionSuggestions.length > 0 && (
+              <View style={styles.mentionSuggestions}>
+                {mentionSuggestions.map(member => (
+                  <TouchableOpacity
+                    key={member.id}
+                    style={styles.mentionSuggestion}
+                    onPress={() => handleSelectMention(member)}
+                  >
+                    <Avatar source={member.user.image} name={member.user.name} size="sm" />
+                    <Text style={styles.mentionSuggestionName} numberOfLines={1}>
+                      {member.user.displayUsername || member.user.name}
+                    </Text>
+                    <Text style={styles.mentionSuggestionUsername} numberOfLines={1}>
+                      @{member.user.username}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
             )}
-          </TouchableOpacity>
-        </View>
+
+            {/* Slow mode */}
+            {cooldownSeconds > 0 && (
+              <View style={styles.slowModeBar}>
+                <Ionicons name="timer-outline" size={14} color={Colors.textMuted} />
+                <Text style={styles.slowModeText}>
+                  {isCoolingDown
+                    ? `Slow mode: wait ${formatCooldown(cooldownRemaining)} to send`
+                    : `Slow mode is on (${formatCooldown(cooldownSeconds)})`}
+                </Text>
+              </View>
+            )}
+
+            {/* Input */}
+            <View style={styles.inputContainer}>
+              <TouchableOpacity 
+                style={styles.attachButton}
+                onPress={handlePickMedia}
+                disabled={isUploading || !!editingMessage}
+              >
+                {isUploading ? (
+                  <ActivityIndicator size="small" color={Colors.primary} />
+                ) : (
+                  <Ionicons name="image-outline" size={24} color={Colors.primary} />
+                )}
+              </TouchableOpacity>
+            
+              <TouchableOpacity 
+                style={styles.attachButton}
+                onPress={handlePickFile}
+                disabled={isUploading || !!editingMessage}
+              >
+                <Ionicons name="attach-outline" size={24} color={Colors.primary} />
+              </TouchableOpacity>
+            
+              <View style={styles.inputWrapper}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Type a message..."
+                  placeholderTextColor={Colors.textMuted}
+                  value={newMessage}
+                  onChangeText={handleChangeText}
+                  selection={forcedSelection ?? undefined}
+                  onSelectionChange={(event) => {
+                    setComposerSelection(event.nativeEvent.selection);
+                    setForcedSelection(null);
+                  }}
+                  multiline
+                  maxLength={2000}
+                />
+              </View>
+            
+              <TouchableOpacity
+                style={[styles.sendButton, ((!newMessage.trim() && pendingAttachments.length === 0) || isCoolingDown) && styles.sendButtonDisabled]}
+                onPress={handleSend}
+                disabled={(!newMessage.trim() && pendingAttachments.length === 0) || isCoolingDown}
+              >
+                {isCoolingDown ? (
+                  <Text style={styles.cooldownText}>{cooldownRemaining}</Text>
+                ) : (
+                  <Ionicons name={editingMessage ? 'checkmark' : 'send'} size={20} color={Colors.background} />
+                )}
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
       </KeyboardAvoidingView>
 
       {/* Search Modal */}
@@ -878,6 +2257,28 @@ export default function ConversationScreen() {
           }}
         >
           <View style={styles.messageActionsMenu}>
+            {selectedMessage && !selectedMessage.deletedAt && !selectedMessage.sendState && (
+              <View style={styles.quickReactions}>
+                {QUICK_REACTIONS.map(emoji => {
+                  const active = selectedMessage.reactions?.some(r => r.emoji === emoji && r.reactedByMe);
+                  return (
+                    <TouchableOpacity
+                      key={emoji}
+                      style={[styles.quickReaction, active && styles.quickReactionActive]}
+                      onPress={() => handleReaction(selectedMessage, emoji)}
+                    >
+                      <Text style={styles.quickReactionEmoji}>{emoji}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+                <TouchableOpacity
+                  style={styles.quickReaction}
+                  onPress={() => handleOpenEmojiPicker(selectedMessage)}
+                >
+                  <Ionicons name="add" size={20} color={Colors.textSecondary} />
+                </TouchableOpacity>
+              </View>
+            )}
             {selectedMessage?.content && (
               <TouchableOpacity 
                 style={styles.optionItem}
@@ -887,6 +2288,15 @@ export default function ConversationScreen() {
                 <Text style={styles.optionText}>Copy Text</Text>
               </TouchableOpacity>
             )}
+            {selectedMessage && !selectedMessage.deletedAt && !selectedMessage.sendState && (
+              <TouchableOpacity 
+                style={styles.optionItem}
+                onPress={() => handleStartReply(selectedMessage)}
+              >
+                <Ionicons name="arrow-undo-outline" size={20} color={Colors.text} />
+                <Text style={styles.optionText}>Reply</Text>
+              </TouchableOpacity>
+            )}
             <TouchableOpacity 
               style={styles.optionItem}
               onPress={async () => {
@@ -900,10 +2310,69 @@ export default function ConversationScreen() {
               <Ionicons name="share-outline" size={20} color={Colors.text} />
               <Text style={styles.optionText}>Share</Text>
             </TouchableOpacity>
+            {canModifySelected && selectedMessage?.content && (
+              <TouchableOpacity 
+                style={styles.optionItem}
+                onPress={() => handleStartEdit(selectedMessage)}
+              >
+                <Ionicons name="create-outline" size={20} color={Colors.text} />
+                <Text style={styles.optionText}>Edit</Text>
+              </TouchableOpacity>
+            )}
+            {messageReaders && (
+              <View style={styles.readersSection}>
+                <Text style={styles.readersTitle}>
+                  {messageReaders.length > 0 ? `Seen by ${messageReaders.length}` : 'Not seen yet'}
+                </Text>
+                <ScrollView style={styles.readersList}>
+                  {messageReaders.map(reader => (
+                    <View key={reader.user.id} style={styles.readerRow}>
+                      <Avatar source={reader.user.image} name={reader.user.name} size="sm" />
+                      <Text style={styles.readerName} numberOfLines={1}>
+                        {reader.user.displayUsername || reader.user.username || reader.user.name}
+                      </Text>
+                      <Text style={styles.readerTime}>{formatTime(reader.readAt)}</Text>
+                    </View>
+                  ))}
+                </ScrollView>
+              </View>
+            )}
+            {selectedMessage && selectedMessage.sender.id !== user?.id && !selectedMessage.deletedAt && (
+              <TouchableOpacity 
+                style={styles.optionItem}
+                onPress={() => handleStartReport({ type: 'message', message: selectedMessage })}
+              >
+                <Ionicons name="flag-outline" size={20} color={Colors.error} />
+                <Text style={[styles.optionText, styles.optionTextDanger]}>Report</Text>
+              </TouchableOpacity>
+            )}
+            {canModifySelected && selectedMessage && (
+              <TouchableOpacity 
+                style={[styles.optionItem, styles.optionItemDanger]}
+                onPress={() => handleDeleteMessage(selectedMessage)}
+              >
+                <Ionicons name="trash-outline" size={20} color={Colors.error} />
+                <Text style={[styles.optionText, styles.optionTextDanger]}>Delete</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </Pressable>
       </Modal>
 
+      {/* Full emoji picker for reactions */}
+      <EmojiPicker
+        visible={!!reactionTarget}
+        onSelect={(emoji) => reactionTarget && handleReaction(reactionTarget, emoji)}
+        onClose={() => setReactionTarget(null)}
+      />
+
+      {/* Report sheet */}
+      <ReportSheet
+        target={reportTarget}
+        onClose={() => setReportTarget(null)}
+        onSubmit={handleSubmitReport}
+      />
+
       {/* User Info Modal */}
       <Modal
         visible={showUserInfo}
@@ -944,11 +2413,72 @@ export default function ConversationScreen() {
                   </Badge>
                 )}
               </View>
+              {selectedUser.id !== user?.id && (
+                <>
+                  <TouchableOpacity
+                    style={styles.userInfoAction}
+                    onPress={() => handleToggleBlock(selectedUser)}
+                  >
+                    <Ionicons name="remove-circle-outline" size={20} color={Colors.error} />
+                    <Text style={[styles.optionText, styles.optionTextDanger]}>
+                      {isUserBlocked(selectedUser.id) ? 'Unblock User' : 'Block User'}
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.userInfoAction}
+                    onPress={() => handleStartReport({ type: 'user', user: selectedUser })}
+                  >
+                    <Ionicons name="flag-outline" size={20} color={Colors.error} />
+                    <Text style={[styles.optionText, styles.optionTextDanger]}>Report User</Text>
+                  </TouchableOpacity>
+                </>
+              )}
             </ScrollView>
           )}
         </SafeAreaView>
       </Modal>
 
+      {/* New admin picker, shown when the last admin leaves */}
+      <Modal
+        visible={showAdminPicker}
+        animationType="slide"
+        onRequestClose={() => setShowAdminPicker(false)}
+      >
+        <SafeAreaView style={styles.userInfoModal}>
+          <View style={styles.userInfoHeader}>
+            <TouchableOpacity onPress={() => setShowAdminPicker(false)}>
+              <Ionicons name="close" size={24} color={Colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.userInfoTitle}>Choose New Admin</Text>
+            <View style={{ width: 24 }} />
+          </View>
+          <ScrollView style={styles.userInfoContent}>
+            <View style={styles.membersSection}>
+              {groupMembers
+                .filter(member => member.user.id !== user?.id)
+                .map(member => (
+                  <TouchableOpacity
+                    key={member.id}
+                    style={styles.memberItem}
+                    onPress={() => handlePickNewAdmin(member)}
+                  >
+                    <Avatar source={member.user.image} name={member.user.name} size="md" />
+                    <View style={styles.memberInfo}>
+                      <Text style={styles.memberName}>
+                        {member.user.displayUsername || member.user.username || member.user.name}
+                      </Text>
+                      {member.user.username && (
+                        <Text style={styles.memberUsername}>@{member.user.username}</Text>
+                      )}
+                    </View>
+                    <Ionicons name="chevron-forward" size={20} color={Colors.textMuted} />
+                  </TouchableOpacity>
+                ))}
+            </View>
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
+
       {/* Media Viewer Modal */}
       <Modal
         visible={showMediaViewer}
@@ -1021,19 +2551,58 @@ export default function ConversationScreen() {
           <ScrollView style={styles.groupSettingsContent}>
             {/* Group Info */}
             <View style={styles.groupInfoSection}>
-              <Avatar
-                source={activeChat?.type === 'group' ? activeChat.data.image : null}
-                name={activeChat?.type === 'group' ? activeChat.data.name : ''}
-                size="xl"
-              />
+              <TouchableOpacity
+                onPress={handlePickGroupImage}
+                disabled={!isAdmin || isUploadingGroupImage}
+              >
+                <Avatar
+                  source={activeChat?.type === 'group' ? activeChat.data.image : null}
+                  name={activeChat?.type === 'group' ? activeChat.data.name : ''}
+                  size="xl"
+                />
+                {isAdmin && (
+                  <View style={styles.groupImageBadge}>
+                    {isUploadingGroupImage ? (
+                      <ActivityIndicator size="small" color={Colors.background} />
+                    ) : (
+                      <Ionicons name="camera" size={16} color={Colors.background} />
+                    )}
+                  </View>
+                )}
+              </TouchableOpacity>
               <Text style={styles.groupName}>
                 {activeChat?.type === 'group' ? activeChat.data.name : ''}
               </Text>
               <Text style={styles.groupMemberCount}>
                 {activeChat?.type === 'group' ? `${activeChat.data.memberCount} members` : ''}
               </Text>
+              {!isAdmin && activeChat?.type === 'group' && activeChat.data.description && (
+                <Text style={styles.groupDescription}>{activeChat.data.description}</Text>
+              )}
             </View>
 
+            {/* Group Profile (admin only) */}
+            {isAdmin && (
+              <View style={styles.settingsSection}>
+                <Text style={styles.settingsSectionTitle}>Profile</Text>
+                <Input
+                  label="Name"
+                  placeholder="Group name"
+                  value={editingGroupName}
+                  onChangeText={setEditingGroupName}
+                  maxLength={50}
+                />
+                <Input
+                  label="Description"
+                  placeholder="What is this group about?"
+                  value={editingGroupDescription}
+                  onChangeText={setEditingGroupDescription}
+                  maxLength={300}
+                  multiline
+                />
+              </View>
+            )}
+
             {/* Settings Toggles (admin only) */}
             {isAdmin && (
               <View style={styles.settingsSection}>
@@ -1065,6 +2634,27 @@ export default function ConversationScreen() {
                   </TouchableOpacity>
                 </View>
 
+                <View style={styles.slowModeSetting}>
+                  <View>
+                    <Text style={styles.settingLabel}>Slow Mode</Text>
+                    <Text style={styles.settingDescription}>Limit how often members can send messages</Text>
+                  </View>
+                  <View style={styles.durationOptions}>
+                    {SLOW_MODE_OPTIONS.map(option => {
+                      const selected = (editingGroupSettings.messageCooldown || 0) === option.seconds;
+                      return (
+                        <TouchableOpacity
+                          key={option.label}
+                          style={[styles.durationChip, selected && styles.durationChipActive]}
+                          onPress={() => setEditingGroupSettings(prev => ({ ...prev, messageCooldown: option.seconds }))}
+                        >
+                          <Text style={[styles.durationText, selected && styles.durationTextActive]}>{option.label}</Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+
                 <View style={styles.settingItem}>
                   <View style={styles.settingInfo}>
                     <Text style={styles.settingLabel}>NSFW Content</Text>
@@ -1077,14 +2667,53 @@ export default function ConversationScreen() {
                     <View style={[styles.toggleKnob, editingGroupSettings.isNsfw && styles.toggleKnobOn]} />
                   </TouchableOpacity>
                 </View>
+
+                <View style={styles.settingItem}>
+                  <View style={styles.settingInfo}>
+                    <Text style={styles.settingLabel}>Nudity Sensor</Text>
+                    <Text style={styles.settingDescription}>
+                      {nudityClassifierAvailable
+                        ? 'Scan images on device and blur or block nudity'
+                        : 'Not available in this version of the app'}
+                    </Text>
+                  </View>
+                  {nudityClassifierAvailable && (
+                    <TouchableOpacity 
+                      style={[styles.toggle, editingGroupSettings.nuditySensor && styles.toggleOn]}
+                      onPress={() => setEditingGroupSettings(prev => ({ ...prev, nuditySensor: !prev.nuditySensor }))}
+                    >
+                      <View style={[styles.toggleKnob, editingGroupSettings.nuditySensor && styles.toggleKnobOn]} />
+                    </TouchableOpacity>
+                  )}
+                </View>
               </View>
             )}
 
+            {/* Invite Link */}
+            {activeChat?.type === 'group' && activeChat.data.inviteCode && (
+              <InviteLinkSection
+                inviteCode={activeChat.data.inviteCode}
+                invites={groupInvites}
+                isAdmin={isAdmin}
+                onCopy={handleCopyInvite}
+                onShare={handleShareInvite}
+                onShowQr={setQrInviteUrl}
+                onReset={handleResetInviteCode}
+                onRevoke={handleRevokeInvite}
+                onCreate={() => setShowCreateInvite(true)}
+              />
+            )}
+
             {/* Members List */}
             <View style={styles.membersSection}>
               <Text style={styles.settingsSectionTitle}>Members</Text>
               {groupMembers.map(member => (
-                <View key={member.id} style={styles.memberItem}>
+                <TouchableOpacity
+                  key={member.id}
+                  style={styles.memberItem}
+                  onPress={() => setManagedMember(member)}
+                  disabled={!isAdmin || member.user.id === user?.id}
+                >
                   <Avatar
                     source={member.user.image}
                     name={member.user.name}
@@ -1098,12 +2727,76 @@ export default function ConversationScreen() {
                       <Badge variant="secondary">Admin</Badge>
                     )}
                   </View>
-                </View>
+                  {isAdmin && member.user.id !== user?.id && (
+                    <Ionicons name="ellipsis-horizontal" size={18} color={Colors.textMuted} />
+                  )}
+                </TouchableOpacity>
               ))}
             </View>
+
+            {/* Reports inbox (admin only) */}
+            {isAdmin && <GroupReportsList reports={groupReports} onResolve={handleResolveReport} />}
+
+            {/* Banned Members (admin only) */}
+            {isAdmin && <BannedMembersList bans={groupBans} onUnban={handleUnban} />}
           </ScrollView>
+
+          {/* Member actions (nested so it can open over this modal on iOS) */}
+          <MemberActionsSheet
+            member={managedMember}
+            onClose={() => setManagedMember(null)}
+            onChangeRole={handleChangeMemberRole}
+            onRemove={handleRemoveMember}
+            onBan={handleStartBan}
+          />
+
+          {/* Invite QR code */}
+          <InviteQrModal
+            url={qrInviteUrl}
+            onClose={() => setQrInviteUrl(null)}
+            onShare={handleShareInvite}
+          />
+
+          {/* New limited invite */}
+          <CreateInviteSheet
+            visible={showCreateInvite}
+            onClose={() => setShowCreateInvite(false)}
+            onCreate={handleCreateInvite}
+          />
+
+          {/* Ban options */}
+          <BanMemberSheet
+            member={banTarget}
+            onClose={() => setBanTarget(null)}
+            onBan={handleBanMember}
+          />
         </SafeAreaView>
       </Modal>
+
+      {/* Age check, shown the first time an NSFW group is opened */}
+      <Modal
+        visible={isNsfwGroup && ageConfirmed === false}
+        transparent
+        animationType="fade"
+        onRequestClose={() => router.back()}
+      >
+        <View style={styles.ageOverlay}>
+          <View style={styles.ageCard}>
+            <Ionicons name="warning-outline" size={40} color={Colors.warning} />
+            <Text style={styles.ageTitle}>Adult Content</Text>
+            <Text style={styles.ageText}>
+              This group is marked as NSFW and may contain content that is only suitable for adults.
+              Please confirm that you are 18 or older to continue.
+            </Text>
+            <Button onPress={handleConfirmAge} fullWidth>
+              I am 18 or older
+            </Button>
+            <Button variant="outline" onPress={() => router.back()} fullWidth>
+              Go Back
+            </Button>
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -1137,6 +2830,11 @@ const styles = StyleSheet.create({
     fontSize: FontSizes.sm,
     color: Colors.textSecondary,
   },
+  typingText: {
+    fontSize: FontSizes.xs,
+    fontStyle: 'italic',
+    color: Colors.primary,
+  },
   headerAction: {
     padding: Spacing.sm,
   },
@@ -1153,6 +2851,10 @@ const styles = StyleSheet.create({
     paddingTop: Spacing.md,
     paddingBottom: Spacing.md,
   },
+  olderMessagesLoading: {
+    paddingVertical: Spacing.md,
+    alignItems: 'center',
+  },
   dateContainer: {
     alignItems: 'center',
     marginVertical: Spacing.md,
@@ -1165,50 +2867,166 @@ const styles = StyleSheet.create({
     paddingVertical: Spacing.xs,
     borderRadius: BorderRadius.full,
   },
-  messageContainer: {
-    flexDirection: 'row',
-    marginBottom: Spacing.sm,
-    maxWidth: '85%',
+  messageContainer: {
+    flexDirection: 'row',
+    marginBottom: Spacing.sm,
+    maxWidth: '85%',
+  },
+  messageContainerOwn: {
+    alignSelf: 'flex-end',
+    flexDirection: 'row-reverse',
+  },
+  avatarContainer: {
+    marginRight: Spacing.sm,
+    alignSelf: 'flex-end',
+  },
+  avatarPlaceholder: {
+    width: 32,
+    height: 32,
+  },
+  messageBubble: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.lg,
+    maxWidth: '100%',
+  },
+  messageBubbleOwn: {
+    backgroundColor: Colors.messageSent,
+    borderBottomRightRadius: BorderRadius.sm,
+  },
+  messageBubbleOther: {
+    backgroundColor: Colors.messageReceived,
+    borderBottomLeftRadius: BorderRadius.sm,
+  },
+  senderName: {
+    fontSize: FontSizes.sm,
+    fontWeight: '600',
+    color: Colors.primary,
+    marginBottom: Spacing.xs,
+  },
+  messageText: {
+    fontSize: FontSizes.md,
+    color: Colors.messageReceivedText,
+    lineHeight: 20,
+  },
+  messageTextOwn: {
+    color: Colors.messageSentText,
+  },
+  messageBubbleMention: {
+    borderLeftWidth: 3,
+    borderLeftColor: Colors.primary,
+  },
+  mentionOwn: {
+    color: Colors.messageSentText,
+    textDecorationLine: 'underline',
+  },
+  mentionSuggestions: {
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+    backgroundColor: Colors.surface,
+    paddingVertical: Spacing.xs,
+  },
+  mentionSuggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  mentionSuggestionName: {
+    fontSize: FontSizes.md,
+    color: Colors.text,
+    flexShrink: 1,
+  },
+  mentionSuggestionUsername: {
+    fontSize: FontSizes.sm,
+    color: Colors.textMuted,
+    flexShrink: 1,
+  },
+  messageContainerHighlighted: {
+    backgroundColor: 'rgba(0, 255, 154, 0.12)',
+    borderRadius: BorderRadius.md,
   },
-  messageContainerOwn: {
-    alignSelf: 'flex-end',
-    flexDirection: 'row-reverse',
+  replyQuote: {
+    alignSelf: 'flex-start',
+    maxWidth: '100%',
+    borderLeftWidth: 2,
+    borderLeftColor: Colors.primary,
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    marginBottom: Spacing.xs,
   },
-  avatarContainer: {
-    marginRight: Spacing.sm,
+  replyQuoteOwn: {
     alignSelf: 'flex-end',
   },
-  avatarPlaceholder: {
-    width: 32,
-    height: 32,
+  replyQuoteName: {
+    fontSize: FontSizes.xs,
+    fontWeight: '600',
+    color: Colors.primary,
   },
-  messageBubble: {
-    paddingHorizontal: Spacing.md,
-    paddingVertical: Spacing.sm,
-    borderRadius: BorderRadius.lg,
-    maxWidth: '100%',
+  replyQuoteText: {
+    fontSize: FontSizes.sm,
+    color: Colors.textSecondary,
   },
-  messageBubbleOwn: {
-    backgroundColor: Colors.messageSent,
-    borderBottomRightRadius: BorderRadius.sm,
+  reactionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginTop: Spacing.xs,
   },
-  messageBubbleOther: {
-    backgroundColor: Colors.messageReceived,
-    borderBottomLeftRadius: BorderRadius.sm,
+  reactionsRowOwn: {
+    justifyContent: 'flex-end',
   },
-  senderName: {
+  reactionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.surfaceElevated,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  reactionChipActive: {
+    borderColor: Colors.primary,
+  },
+  reactionEmoji: {
     fontSize: FontSizes.sm,
+  },
+  reactionCount: {
+    fontSize: FontSizes.xs,
     fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+  reactionCountActive: {
     color: Colors.primary,
-    marginBottom: Spacing.xs,
   },
-  messageText: {
+  messageBubbleDeleted: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  deletedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  deletedText: {
     fontSize: FontSizes.md,
-    color: Colors.messageReceivedText,
-    lineHeight: 20,
+    fontStyle: 'italic',
+    color: Colors.textMuted,
   },
-  messageTextOwn: {
-    color: Colors.messageSentText,
+  messageBubblePending: {
+    opacity: 0.7,
+  },
+  messageMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    gap: Spacing.xs,
   },
   messageTime: {
     fontSize: FontSizes.xs,
@@ -1216,6 +3034,25 @@ const styles = StyleSheet.create({
     marginTop: Spacing.xs,
     alignSelf: 'flex-end',
   },
+  failedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    gap: Spacing.sm,
+    marginTop: Spacing.xs,
+  },
+  failedText: {
+    fontSize: FontSizes.xs,
+    color: Colors.error,
+  },
+  failedAction: {
+    fontSize: FontSizes.xs,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  failedActionDanger: {
+    color: Colors.error,
+  },
   messageTimeOwn: {
     color: 'rgba(11, 15, 13, 0.6)',
   },
@@ -1246,6 +3083,31 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
     marginTop: Spacing.lg,
   },
+  composerBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+    backgroundColor: Colors.surface,
+  },
+  composerBannerInfo: {
+    flex: 1,
+    borderLeftWidth: 2,
+    borderLeftColor: Colors.primary,
+    paddingLeft: Spacing.sm,
+  },
+  composerBannerTitle: {
+    fontSize: FontSizes.sm,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  composerBannerText: {
+    fontSize: FontSizes.sm,
+    color: Colors.textSecondary,
+  },
   inputContainer: {
     flexDirection: 'row',
     alignItems: 'flex-end',
@@ -1403,6 +3265,14 @@ const styles = StyleSheet.create({
   mediaTimeOwn: {
     textAlign: 'right',
   },
+  mediaMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  mediaMetaOwn: {
+    alignSelf: 'flex-end',
+  },
   // Attachment button
   attachButton: {
     width: 40,
@@ -1471,13 +3341,66 @@ const styles = StyleSheet.create({
     backgroundColor: Colors.surface,
     borderRadius: BorderRadius.lg,
     paddingVertical: Spacing.sm,
-    minWidth: 180,
+    minWidth: 240,
     borderWidth: 1,
     borderColor: Colors.border,
     position: 'absolute',
     top: '40%',
     left: '50%',
-    transform: [{ translateX: -90 }],
+    transform: [{ translateX: -120 }],
+  },
+  readersSection: {
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+    marginTop: Spacing.xs,
+    paddingTop: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+  },
+  readersTitle: {
+    fontSize: FontSizes.sm,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    marginBottom: Spacing.xs,
+  },
+  readersList: {
+    maxHeight: 160,
+  },
+  readerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+  readerName: {
+    flex: 1,
+    fontSize: FontSizes.sm,
+    color: Colors.text,
+  },
+  readerTime: {
+    fontSize: FontSizes.xs,
+    color: Colors.textMuted,
+  },
+  quickReactions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.sm,
+    paddingBottom: Spacing.sm,
+    marginBottom: Spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  quickReaction: {
+    width: 32,
+    height: 32,
+    borderRadius: BorderRadius.full,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  quickReactionActive: {
+    backgroundColor: Colors.surfaceElevated,
+  },
+  quickReactionEmoji: {
+    fontSize: 20,
   },
   optionItem: {
     flexDirection: 'row',
@@ -1557,6 +3480,14 @@ const styles = StyleSheet.create({
   userInfoBadge: {
     marginTop: Spacing.md,
   },
+  userInfoAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    paddingVertical: Spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
   // Media Viewer
   mediaViewerContainer: {
     flex: 1,
@@ -1634,6 +3565,24 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
     marginTop: Spacing.xs,
   },
+  groupDescription: {
+    fontSize: FontSizes.md,
+    color: Colors.text,
+    textAlign: 'center',
+    marginTop: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+  },
+  groupImageBadge: {
+    position: 'absolute',
+    right: 0,
+    bottom: 0,
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: Colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   settingsSection: {
     paddingHorizontal: Spacing.lg,
     paddingVertical: Spacing.lg,
@@ -1711,4 +3660,140 @@ const styles = StyleSheet.create({
     color: Colors.text,
     fontWeight: '500',
   },
+  memberUsername: {
+    fontSize: FontSizes.sm,
+    color: Colors.textMuted,
+  },
+  unbanText: {
+    fontSize: FontSizes.sm,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  // Bottom sheets inside the group settings modal
+  durationOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  durationChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  durationChipActive: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.surfaceElevated,
+  },
+  durationText: {
+    fontSize: FontSizes.sm,
+    color: Colors.textSecondary,
+  },
+  durationTextActive: {
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  slowModeSetting: {
+    gap: Spacing.sm,
+    paddingVertical: Spacing.md,
+  },
+  slowModeBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.xs,
+    paddingVertical: Spacing.xs,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+    backgroundColor: Colors.surface,
+  },
+  slowModeText: {
+    fontSize: FontSizes.xs,
+    color: Colors.textMuted,
+  },
+  sensitiveOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.xs,
+    backgroundColor: 'rgba(0, 0, 0, 0.45)',
+  },
+  sensitiveTitle: {
+    fontSize: FontSizes.sm,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  sensitiveHint: {
+    fontSize: FontSizes.xs,
+    color: Colors.textSecondary,
+  },
+  sensitiveBubble: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  sensitiveBubbleText: {
+    fontSize: FontSizes.sm,
+    fontStyle: 'italic',
+    color: Colors.textSecondary,
+  },
+  ageOverlay: {
+    flex: 1,
+    backgroundColor: Colors.background,
+    justifyContent: 'center',
+    padding: Spacing.xl,
+  },
+  ageCard: {
+    alignItems: 'center',
+    gap: Spacing.md,
+    padding: Spacing.xl,
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xl,
+  },
+  ageTitle: {
+    fontSize: FontSizes.xl,
+    fontWeight: '700',
+    color: Colors.text,
+  },
+  ageText: {
+    fontSize: FontSizes.md,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  blockedMessage: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    gap: Spacing.xs,
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    marginVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.surface,
+  },
+  blockedMessageText: {
+    fontSize: FontSizes.xs,
+    color: Colors.textMuted,
+  },
+  readOnlyBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+    backgroundColor: Colors.surface,
+  },
+  readOnlyText: {
+    fontSize: FontSizes.sm,
+    color: Colors.textMuted,
+  },
+  cooldownText: {
+    fontSize: FontSizes.sm,
+    fontWeight: '700',
+    color: Colors.background,
+  },
 });
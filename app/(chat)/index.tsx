@@ -157,7 +157,7 @@ export default function ChatListScreen() {
           </View>
           {item.lastMessage && (
             <Text style={styles.lastMessage} numberOfLines={1}>
-              {item.lastMessage.content}
+              {item.lastMessage.deletedAt ? 'Message deleted' : item.lastMessage.content}
             </Text>
           )}
         </View>
@@ -185,13 +185,18 @@ export default function ChatListScreen() {
           <Text style={styles.chatName} numberOfLines={1}>
             {item.name}
           </Text>
+          {item.adminOnlyChat && (
+            <Badge variant="outline">
+              <Ionicons name="megaphone-outline" size={10} color={Colors.text} /> Announcements
+            </Badge>
+          )}
           {item.isPinned && (
             <Ionicons name="pin" size={14} color={Colors.primary} />
           )}
         </View>
         {item.lastMessage && (
           <Text style={styles.lastMessage} numberOfLines={1}>
-            {item.lastMessage.sender.name}: {item.lastMessage.content}
+            {item.lastMessage.sender.name}: {item.lastMessage.deletedAt ? 'Message deleted' : item.lastMessage.content}
           </Text>
         )}
         <Text style={styles.memberCount}>
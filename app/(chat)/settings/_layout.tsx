@@ -17,6 +17,10 @@ export default function SettingsLayout() {
       <Stack.Screen name="index" />
       <Stack.Screen name="edit-profile" />
       <Stack.Screen name="privacy" />
+      <Stack.Screen name="two-factor" />
+      <Stack.Screen name="change-password" />
+      <Stack.Screen name="devices" />
+      <Stack.Screen name="delete-account" />
       <Stack.Screen name="notifications" />
       <Stack.Screen name="appearance" />
       <Stack.Screen name="about" />
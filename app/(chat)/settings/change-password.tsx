@@ -0,0 +1,218 @@
+/**
+ * Change Password Settings Screen for Nox Chat
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Switch,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Button, Card, Input, PasswordStrength } from '@/components/ui';
+import { Colors, FontSizes, Spacing, BorderRadius } from '@/constants/theme';
+import { useAuth } from '@/lib/auth-context';
+import { validatePassword } from '@/lib/security';
+
+export default function ChangePasswordScreen() {
+  const router = useRouter();
+  const { changePassword } = useAuth();
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [revokeOtherSessions, setRevokeOtherSessions] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const passwordValid = validatePassword(newPassword).valid;
+  const passwordsMatch = newPassword === confirmPassword;
+  const canSubmit = !!currentPassword && passwordValid && passwordsMatch;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+
+    setError('');
+    setIsLoading(true);
+    try {
+      const result = await changePassword(currentPassword, newPassword, revokeOtherSessions);
+      if (result.success) {
+        Alert.alert(
+          'Password Changed',
+          revokeOtherSessions
+            ? 'Your password has been updated and your other devices have been signed out.'
+            : 'Your password has been updated.',
+          [{ text: 'OK', onPress: () => router.back() }]
+        );
+      } else {
+        setError(result.error || 'Failed to change password');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={() => router.back()}>
+          <Ionicons name="chevron-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Change Password</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView
+          style={styles.content}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Card style={styles.section}>
+            {error ? (
+              <View style={styles.errorContainer}>
+                <Text style={styles.errorText}>{error}</Text>
+              </View>
+            ) : null}
+
+            <Input
+              label="Current Password"
+              placeholder="••••••••"
+              value={currentPassword}
+              onChangeText={setCurrentPassword}
+              isPassword
+              editable={!isLoading}
+              leftIcon={<Ionicons name="lock-closed-outline" size={20} color={Colors.textMuted} />}
+            />
+
+            <Input
+              label="New Password"
+              placeholder="••••••••"
+              value={newPassword}
+              onChangeText={setNewPassword}
+              isPassword
+              editable={!isLoading}
+              leftIcon={<Ionicons name="key-outline" size={20} color={Colors.textMuted} />}
+            />
+
+            <PasswordStrength password={newPassword} />
+
+            <Input
+              label="Confirm New Password"
+              placeholder="••••••••"
+              value={confirmPassword}
+              onChangeText={setConfirmPassword}
+              isPassword
+              editable={!isLoading}
+              error={confirmPassword && !passwordsMatch ? 'Passwords do not match' : undefined}
+              leftIcon={<Ionicons name="key-outline" size={20} color={Colors.textMuted} />}
+            />
+
+            <View style={styles.settingRow}>
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>Sign Out Other Devices</Text>
+                <Text style={styles.settingDescription}>
+                  End every other session after changing your password
+                </Text>
+              </View>
+              <Switch
+                value={revokeOtherSessions}
+                onValueChange={setRevokeOtherSessions}
+                disabled={isLoading}
+                trackColor={{ false: Colors.surfaceHover, true: Colors.primaryMuted }}
+                thumbColor={revokeOtherSessions ? Colors.primary : Colors.textMuted}
+              />
+            </View>
+
+            <Button onPress={handleSubmit} loading={isLoading} disabled={isLoading || !canSubmit} fullWidth>
+              Change Password
+            </Button>
+          </Card>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: FontSizes.lg,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+  section: {
+    marginBottom: Spacing.lg,
+  },
+  errorContainer: {
+    backgroundColor: 'rgba(255, 92, 92, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 92, 92, 0.2)',
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  errorText: {
+    color: Colors.error,
+    fontSize: FontSizes.sm,
+    textAlign: 'center',
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  settingInfo: {
+    flex: 1,
+    marginRight: Spacing.md,
+  },
+  settingLabel: {
+    fontSize: FontSizes.md,
+    fontWeight: '500',
+    color: Colors.text,
+    marginBottom: Spacing.xs,
+  },
+  settingDescription: {
+    fontSize: FontSizes.sm,
+    color: Colors.textSecondary,
+  },
+});
@@ -0,0 +1,244 @@
+/**
+ * Delete Account Settings Screen for Nox Chat
+ * Typed confirmation plus password (and 2FA) re-authentication before deletion
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Button, Card, Input } from '@/components/ui';
+import { Colors, FontSizes, Spacing, BorderRadius } from '@/constants/theme';
+import { useAuth } from '@/lib/auth-context';
+
+// What the user has to type to unlock the delete button
+const CONFIRMATION_TEXT = 'DELETE';
+
+export default function DeleteAccountScreen() {
+  const router = useRouter();
+  const { user, deleteAccount } = useAuth();
+  const requiresTwoFactor = !!user?.twoFactorEnabled;
+
+  const [confirmation, setConfirmation] = useState('');
+  const [password, setPassword] = useState('');
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const confirmed = confirmation.trim() === CONFIRMATION_TEXT;
+  const hasTwoFactorCode = useBackupCode ? !!twoFactorCode.trim() : twoFactorCode.trim().length === 6;
+  const canSubmit = confirmed && !!password && (!requiresTwoFactor || hasTwoFactorCode);
+
+  const handleDelete = async () => {
+    if (!canSubmit) return;
+
+    setError('');
+    setIsLoading(true);
+    try {
+      const result = requiresTwoFactor
+        ? await deleteAccount(password, twoFactorCode, { backupCode: useBackupCode })
+        : await deleteAccount(password);
+      if (result.success) {
+        router.replace('/(auth)/login');
+      } else {
+        setError(result.error || 'Failed to delete account');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={() => router.back()}>
+          <Ionicons name="chevron-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Delete Account</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView
+          style={styles.content}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Card style={styles.warningCard}>
+            <View style={styles.warningRow}>
+              <Ionicons name="warning-outline" size={24} color={Colors.error} />
+              <Text style={styles.warningTitle}>This cannot be undone</Text>
+            </View>
+            <Text style={styles.description}>
+              Deleting your account permanently removes your profile, messages, direct messages and group memberships. Groups you own may be deleted for every member.
+            </Text>
+          </Card>
+
+          <Card style={styles.section}>
+            {error ? (
+              <View style={styles.errorContainer}>
+                <Text style={styles.errorText}>{error}</Text>
+              </View>
+            ) : null}
+
+            <Input
+              label={`Type ${CONFIRMATION_TEXT} to confirm`}
+              placeholder={CONFIRMATION_TEXT}
+              value={confirmation}
+              onChangeText={setConfirmation}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              editable={!isLoading}
+              leftIcon={<Ionicons name="trash-outline" size={20} color={Colors.textMuted} />}
+            />
+
+            <Input
+              label="Password"
+              placeholder="Confirm your password"
+              value={password}
+              onChangeText={setPassword}
+              isPassword
+              editable={!isLoading}
+              leftIcon={<Ionicons name="lock-closed-outline" size={20} color={Colors.textMuted} />}
+            />
+
+            {requiresTwoFactor && (
+              <>
+                <Input
+                  label={useBackupCode ? 'Backup code' : 'Authentication code'}
+                  placeholder={useBackupCode ? 'xxxxx-xxxxx' : '123456'}
+                  value={twoFactorCode}
+                  onChangeText={setTwoFactorCode}
+                  keyboardType={useBackupCode ? 'default' : 'number-pad'}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  maxLength={useBackupCode ? 20 : 6}
+                  autoComplete="one-time-code"
+                  editable={!isLoading}
+                  leftIcon={<Ionicons name="shield-checkmark-outline" size={20} color={Colors.textMuted} />}
+                />
+                <TouchableOpacity
+                  style={styles.secondaryAction}
+                  onPress={() => {
+                    setUseBackupCode(prev => !prev);
+                    setTwoFactorCode('');
+                  }}
+                  disabled={isLoading}
+                >
+                  <Text style={styles.linkText}>
+                    {useBackupCode ? 'Use authenticator app instead' : 'Use a backup code instead'}
+                  </Text>
+                </TouchableOpacity>
+              </>
+            )}
+
+            <Button
+              variant="destructive"
+              onPress={handleDelete}
+              loading={isLoading}
+              disabled={isLoading || !canSubmit}
+              fullWidth
+            >
+              Permanently Delete Account
+            </Button>
+          </Card>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: FontSizes.lg,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+  section: {
+    marginBottom: Spacing.lg,
+  },
+  warningCard: {
+    borderWidth: 1,
+    borderColor: 'rgba(255, 92, 92, 0.2)',
+    marginBottom: Spacing.lg,
+  },
+  warningRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  warningTitle: {
+    fontSize: FontSizes.md,
+    fontWeight: '600',
+    color: Colors.error,
+  },
+  description: {
+    fontSize: FontSizes.sm,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+  },
+  secondaryAction: {
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  linkText: {
+    fontSize: FontSizes.sm,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  errorContainer: {
+    backgroundColor: 'rgba(255, 92, 92, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 92, 92, 0.2)',
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  errorText: {
+    color: Colors.error,
+    fontSize: FontSizes.sm,
+    textAlign: 'center',
+  },
+});
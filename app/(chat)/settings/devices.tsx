@@ -0,0 +1,363 @@
+/**
+ * Devices & Sessions Settings Screen for Nox Chat
+ * Lists where the account is signed in and lets the user sign those sessions out
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Badge, Button, Card } from '@/components/ui';
+import { Colors, FontSizes, Spacing, BorderRadius } from '@/constants/theme';
+import { useAuth } from '@/lib/auth-context';
+import type { DeviceSession } from '@/lib/types';
+
+interface SessionDevice {
+  device: string;
+  platform: string;
+  icon: keyof typeof Ionicons.glyphMap;
+}
+
+/** Best-effort device and platform names from a session's user agent */
+const describeDevice = (userAgent?: string | null): SessionDevice => {
+  const ua = userAgent || '';
+
+  if (/iPad/.test(ua)) return { device: 'iPad', platform: 'iOS', icon: 'tablet-portrait-outline' };
+  if (/iPhone|iPod/.test(ua)) return { device: 'iPhone', platform: 'iOS', icon: 'phone-portrait-outline' };
+  // The native app's HTTP stacks identify as CFNetwork (iOS) and okhttp (Android)
+  if (/CFNetwork|Darwin/.test(ua)) return { device: 'Nox app', platform: 'iOS', icon: 'phone-portrait-outline' };
+  if (/okhttp/i.test(ua)) return { device: 'Nox app', platform: 'Android', icon: 'phone-portrait-outline' };
+  if (/Android/.test(ua)) {
+    const model = /Android [^;)]*;\s*([^;)]+?)(?:\s+Build|\))/.exec(ua)?.[1];
+    return { device: model || 'Android device', platform: 'Android', icon: 'phone-portrait-outline' };
+  }
+
+  const browser = /Edg\//.test(ua) ? 'Edge'
+    : /Firefox\//.test(ua) ? 'Firefox'
+    : /Chrome\//.test(ua) ? 'Chrome'
+    : /Safari\//.test(ua) ? 'Safari'
+    : null;
+  const platform = /Windows/.test(ua) ? 'Windows'
+    : /Macintosh|Mac OS X/.test(ua) ? 'macOS'
+    : /Linux/.test(ua) ? 'Linux'
+    : 'Unknown platform';
+
+  return {
+    device: browser ? `${browser} browser` : 'Unknown device',
+    platform,
+    icon: browser ? 'globe-outline' : 'help-circle-outline',
+  };
+};
+
+const formatLastActive = (date: Date) => {
+  const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 1) return 'Active just now';
+  if (minutes < 60) return `Active ${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Active ${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `Active ${days}d ago`;
+  return `Active ${new Date(date).toLocaleDateString()}`;
+};
+
+export default function DevicesScreen() {
+  const router = useRouter();
+  const { listSessions, revokeSession, revokeOtherSessions } = useAuth();
+
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [currentSessionId, setCurrentSessionId] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [isRevokingOthers, setIsRevokingOthers] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadSessions = useCallback(async () => {
+    const result = await listSessions();
+    if (result.success && result.sessions) {
+      // Current device first, then most recently active
+      const sorted = [...result.sessions].sort((a, b) => {
+        if (a.id === result.currentSessionId) return -1;
+        if (b.id === result.currentSessionId) return 1;
+        return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+      });
+      setSessions(sorted);
+      setCurrentSessionId(result.currentSessionId);
+      setError('');
+    } else {
+      setError(result.error || 'Failed to load sessions');
+    }
+  }, [listSessions]);
+
+  useEffect(() => {
+    loadSessions().finally(() => setIsLoading(false));
+  }, [loadSessions]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadSessions();
+    setIsRefreshing(false);
+  };
+
+  const handleRevoke = (session: DeviceSession) => {
+    const { device, platform } = describeDevice(session.userAgent);
+    Alert.alert(
+      'Sign Out Session',
+      `Sign out ${device} (${platform})? It will need to sign in again to use your account.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: async () => {
+            setRevokingId(session.id);
+            const result = await revokeSession(session);
+            setRevokingId(null);
+            if (result.success) {
+              setSessions(prev => prev.filter(s => s.id !== session.id));
+            } else {
+              Alert.alert('Error', result.error || 'Failed to sign out session');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRevokeOthers = () => {
+    Alert.alert(
+      'Sign Out All Other Sessions',
+      'Every device except this one will be signed out.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out All',
+          style: 'destructive',
+          onPress: async () => {
+            setIsRevokingOthers(true);
+            const result = await revokeOtherSessions();
+            setIsRevokingOthers(false);
+            if (result.success) {
+              setSessions(prev => prev.filter(s => s.id === currentSessionId));
+            } else {
+              Alert.alert('Error', result.error || 'Failed to sign out other sessions');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const otherSessionCount = sessions.filter(s => s.id !== currentSessionId).length;
+
+  const renderSession = (session: DeviceSession) => {
+    const { device, platform, icon } = describeDevice(session.userAgent);
+    const isCurrent = session.id === currentSessionId;
+
+    return (
+      <View key={session.id} style={styles.sessionRow}>
+        <View style={styles.sessionIcon}>
+          <Ionicons name={icon} size={22} color={isCurrent ? Colors.primary : Colors.textSecondary} />
+        </View>
+        <View style={styles.sessionInfo}>
+          <View style={styles.sessionTitleRow}>
+            <Text style={styles.sessionDevice} numberOfLines={1}>{device}</Text>
+            {isCurrent && <Badge variant="primary">This device</Badge>}
+          </View>
+          <Text style={styles.sessionMeta} numberOfLines={1}>
+            {platform}{session.ipAddress ? ` · ${session.ipAddress}` : ''}
+          </Text>
+          <Text style={styles.sessionMeta}>
+            {isCurrent ? 'Active now' : formatLastActive(session.updatedAt)}
+          </Text>
+        </View>
+        {!isCurrent && (
+          revokingId === session.id ? (
+            <ActivityIndicator size="small" color={Colors.error} />
+          ) : (
+            <TouchableOpacity
+              style={styles.revokeButton}
+              onPress={() => handleRevoke(session)}
+              disabled={!!revokingId || isRevokingOthers}
+            >
+              <Text style={styles.revokeText}>Sign out</Text>
+            </TouchableOpacity>
+          )
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={() => router.back()}>
+          <Ionicons name="chevron-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Devices & Sessions</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} tintColor={Colors.primary} />
+          }
+        >
+          {error ? (
+            <View style={styles.errorContainer}>
+              <Text style={styles.errorText}>{error}</Text>
+            </View>
+          ) : null}
+
+          <Card style={styles.section}>
+            <Text style={styles.sectionTitle}>Where You Are Signed In</Text>
+            {sessions.map(renderSession)}
+          </Card>
+
+          {otherSessionCount > 0 && (
+            <Button
+              variant="destructive"
+              onPress={handleRevokeOthers}
+              loading={isRevokingOthers}
+              disabled={isRevokingOthers || !!revokingId}
+              fullWidth
+              style={styles.section}
+            >
+              Sign Out All Other Sessions
+            </Button>
+          )}
+
+          <Text style={styles.footnote}>
+            Signed-out devices stop receiving push notifications. If you do not recognise a session, sign it out and change your password.
+          </Text>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: FontSizes.lg,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+  section: {
+    marginBottom: Spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: FontSizes.md,
+    fontWeight: '600',
+    color: Colors.primary,
+    marginBottom: Spacing.md,
+  },
+  errorContainer: {
+    backgroundColor: 'rgba(255, 92, 92, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 92, 92, 0.2)',
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  errorText: {
+    color: Colors.error,
+    fontSize: FontSizes.sm,
+    textAlign: 'center',
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  sessionIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: Colors.surfaceElevated,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  sessionInfo: {
+    flex: 1,
+  },
+  sessionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginBottom: Spacing.xs,
+  },
+  sessionDevice: {
+    flexShrink: 1,
+    fontSize: FontSizes.md,
+    fontWeight: '500',
+    color: Colors.text,
+  },
+  sessionMeta: {
+    fontSize: FontSizes.sm,
+    color: Colors.textSecondary,
+  },
+  revokeButton: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+  },
+  revokeText: {
+    fontSize: FontSizes.sm,
+    fontWeight: '600',
+    color: Colors.error,
+  },
+  footnote: {
+    fontSize: FontSizes.sm,
+    color: Colors.textMuted,
+    lineHeight: 20,
+    marginBottom: Spacing.xxl,
+  },
+});
@@ -102,6 +102,11 @@ export default function SettingsScreen() {
             label="Privacy & Security"
             onPress={() => router.push('/(chat)/settings/privacy')}
           />
+          <SettingItem
+            icon="phone-portrait-outline"
+            label="Devices & Sessions"
+            onPress={() => router.push('/(chat)/settings/devices')}
+          />
         </View>
 
         <View style={styles.section}>
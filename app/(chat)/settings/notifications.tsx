@@ -32,6 +32,7 @@ export default function NotificationsScreen() {
     dmNotifications: true,
     groupNotifications: true,
     mentionNotifications: true,
+    mentionsOnly: false,
     mutedGroups: [],
   });
   const [isLoading, setIsLoading] = useState(true);
@@ -235,9 +236,9 @@ export default function NotificationsScreen() {
 
           <View style={styles.settingRow}>
             <View style={styles.settingInfo}>
-              <Text style={styles.settingLabel}>Mentions Only</Text>
+              <Text style={styles.settingLabel}>Mentions</Text>
               <Text style={styles.settingDescription}>
-                Only notify when you're mentioned
+                Notifications when someone mentions you
               </Text>
             </View>
             <Switch
@@ -248,6 +249,22 @@ export default function NotificationsScreen() {
               disabled={!settings.enabled}
             />
           </View>
+
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>Mentions Only</Text>
+              <Text style={styles.settingDescription}>
+                Only notify for group messages that mention you
+              </Text>
+            </View>
+            <Switch
+              value={settings.mentionsOnly}
+              onValueChange={(value) => updateSetting('mentionsOnly', value)}
+              trackColor={{ false: Colors.surfaceHover, true: Colors.primaryMuted }}
+              thumbColor={settings.mentionsOnly ? Colors.primary : Colors.textMuted}
+              disabled={!settings.enabled || !settings.groupNotifications}
+            />
+          </View>
         </Card>
 
         {/* Muted Groups */}
@@ -15,40 +15,57 @@ import {
 import { useRouter } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import { Card } from '@/components/ui';
+import { Avatar, Card } from '@/components/ui';
 import { Colors, FontSizes, Spacing, BorderRadius } from '@/constants/theme';
 import apiClient from '@/lib/api-client';
+import { API_ENDPOINTS } from '@/lib/api-config';
+import { useChat } from '@/lib/chat-context';
+import { useAuth } from '@/lib/auth-context';
+import { contentPreferences, NsfwBlurMode } from '@/lib/content-preferences';
+
+const NSFW_BLUR_OPTIONS: { value: NsfwBlurMode; label: string; description: string }[] = [
+  { value: 'always', label: 'Always Blur', description: 'Blur sensitive content in groups and direct messages' },
+  { value: 'groups', label: 'Blur in Groups Only', description: 'Show sensitive content in direct messages' },
+  { value: 'off', label: 'Show', description: 'Never blur sensitive content' },
+];
 
 interface PrivacySettings {
   showOnlineStatus: boolean;
   showLastSeen: boolean;
   allowDMs: boolean;
   allowGroupInvites: boolean;
+  readReceipts: boolean;
 }
 
 export default function PrivacyScreen() {
   const router = useRouter();
+  const { user } = useAuth();
+  const { setReadReceiptsEnabled, blockedUsers, unblockUser } = useChat();
   const [settings, setSettings] = useState<PrivacySettings>({
     showOnlineStatus: true,
     showLastSeen: true,
     allowDMs: true,
     allowGroupInvites: true,
+    readReceipts: true,
   });
   const [isLoading, setIsLoading] = useState(true);
+  const [nsfwBlur, setNsfwBlur] = useState<NsfwBlurMode>('always');
 
   useEffect(() => {
     loadSettings();
+    contentPreferences.load().then(prefs => setNsfwBlur(prefs.nsfwBlur));
   }, []);
 
   const loadSettings = async () => {
     try {
-      const response = await apiClient.get('/api/user/privacy-settings');
+      const response = await apiClient.get<Partial<PrivacySettings>>(API_ENDPOINTS.privacySettings);
       if (response.status === 200 && response.data) {
         setSettings({
           showOnlineStatus: response.data.showOnlineStatus ?? true,
           showLastSeen: response.data.showLastSeen ?? true,
           allowDMs: response.data.allowDMs ?? true,
           allowGroupInvites: response.data.allowGroupInvites ?? true,
+          readReceipts: response.data.readReceipts ?? true,
         });
       }
     } catch (err) {
@@ -63,7 +80,7 @@ export default function PrivacyScreen() {
     setSettings(prev => ({ ...prev, [key]: value }));
 
     try {
-      const response = await apiClient.put('/api/user/privacy-settings', {
+      const response = await apiClient.put(API_ENDPOINTS.privacySettings, {
         [key]: value,
       });
 
@@ -71,6 +88,8 @@ export default function PrivacyScreen() {
         // Revert on failure
         setSettings(prev => ({ ...prev, [key]: previousValue }));
         Alert.alert('Error', 'Failed to update setting');
+      } else if (key === 'readReceipts') {
+        setReadReceiptsEnabled(value);
       }
     } catch (err) {
       setSettings(prev => ({ ...prev, [key]: previousValue }));
@@ -78,27 +97,25 @@ export default function PrivacyScreen() {
     }
   };
 
-  const handleDeleteAccount = () => {
-    Alert.alert(
-      'Delete Account',
-      'Are you sure you want to delete your account? This action cannot be undone.',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        { 
-          text: 'Delete', 
-          style: 'destructive',
-          onPress: () => {
-            Alert.alert(
-              'Confirm Deletion',
-              'Please type DELETE to confirm account deletion. This will permanently remove all your data.',
-              [
-                { text: 'Cancel', style: 'cancel' },
-              ]
-            );
+  // Stored on this device only
+  const updateNsfwBlur = async (value: NsfwBlurMode) => {
+    setNsfwBlur(value);
+    await contentPreferences.update({ nsfwBlur: value });
+  };
+
+  const handleUnblock = (userId: string, name: string) => {
+    Alert.alert('Unblock User', `Unblock ${name}? They will be able to message you again.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Unblock',
+        onPress: async () => {
+          const result = await unblockUser(userId);
+          if (!result.success) {
+            Alert.alert('Error', result.error || 'Failed to unblock user');
           }
         },
-      ]
-    );
+      },
+    ]);
   };
 
   return (
@@ -113,6 +130,31 @@ export default function PrivacyScreen() {
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Security */}
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Security</Text>
+
+          <TouchableOpacity style={styles.linkRow} onPress={() => router.push('/(chat)/settings/change-password')}>
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>Change Password</Text>
+              <Text style={styles.settingDescription}>
+                Update your password and optionally sign out other devices
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={Colors.textMuted} />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.linkRow} onPress={() => router.push('/(chat)/settings/two-factor')}>
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>Two-Factor Authentication</Text>
+              <Text style={styles.settingDescription}>
+                {user?.twoFactorEnabled ? 'On' : 'Off'} · Require a code from an authenticator app to sign in
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={Colors.textMuted} />
+          </TouchableOpacity>
+        </Card>
+
         {/* Online Status */}
         <Card style={styles.section}>
           <Text style={styles.sectionTitle}>Online Status</Text>
@@ -181,28 +223,80 @@ export default function PrivacyScreen() {
               thumbColor={settings.allowGroupInvites ? Colors.primary : Colors.textMuted}
             />
           </View>
+
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>Read Receipts</Text>
+              <Text style={styles.settingDescription}>
+                Let others see when you have read their messages. Turning this off also hides theirs from you
+              </Text>
+            </View>
+            <Switch
+              value={settings.readReceipts}
+              onValueChange={(value) => updateSetting('readReceipts', value)}
+              trackColor={{ false: Colors.surfaceHover, true: Colors.primaryMuted }}
+              thumbColor={settings.readReceipts ? Colors.primary : Colors.textMuted}
+            />
+          </View>
+        </Card>
+
+        {/* Sensitive Content */}
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Sensitive Content</Text>
+
+          {NSFW_BLUR_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={styles.settingRow}
+              onPress={() => updateNsfwBlur(option.value)}
+            >
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>{option.label}</Text>
+                <Text style={styles.settingDescription}>{option.description}</Text>
+              </View>
+              <Ionicons
+                name={nsfwBlur === option.value ? 'radio-button-on' : 'radio-button-off'}
+                size={22}
+                color={nsfwBlur === option.value ? Colors.primary : Colors.textMuted}
+              />
+            </TouchableOpacity>
+          ))}
         </Card>
 
         {/* Blocked Users */}
         <Card style={styles.section}>
           <Text style={styles.sectionTitle}>Blocked Users</Text>
           
-          <TouchableOpacity style={styles.linkRow}>
-            <View style={styles.settingInfo}>
-              <Text style={styles.settingLabel}>Manage Blocked Users</Text>
-              <Text style={styles.settingDescription}>
-                View and unblock users you've blocked
-              </Text>
-            </View>
-            <Ionicons name="chevron-forward" size={20} color={Colors.textMuted} />
-          </TouchableOpacity>
+          {blockedUsers.length === 0 ? (
+            <Text style={styles.settingDescription}>
+              Blocked users cannot message you, and their messages in groups are hidden
+            </Text>
+          ) : (
+            blockedUsers.map(blocked => {
+              const name = blocked.displayUsername || blocked.username || blocked.name;
+              return (
+                <View key={blocked.id} style={styles.blockedRow}>
+                  <Avatar source={blocked.image} name={blocked.name} size="sm" />
+                  <View style={styles.settingInfo}>
+                    <Text style={styles.settingLabel}>{name}</Text>
+                    {blocked.username && (
+                      <Text style={styles.settingDescription}>@{blocked.username}</Text>
+                    )}
+                  </View>
+                  <TouchableOpacity onPress={() => handleUnblock(blocked.id, name)}>
+                    <Text style={styles.unblockText}>Unblock</Text>
+                  </TouchableOpacity>
+                </View>
+              );
+            })
+          )}
         </Card>
 
         {/* Danger Zone */}
         <Card style={[styles.section, styles.dangerSection]}>
           <Text style={styles.dangerTitle}>Danger Zone</Text>
           
-          <TouchableOpacity style={styles.dangerButton} onPress={handleDeleteAccount}>
+          <TouchableOpacity style={styles.dangerButton} onPress={() => router.push('/(chat)/settings/delete-account')}>
             <Ionicons name="trash-outline" size={20} color={Colors.error} />
             <Text style={styles.dangerButtonText}>Delete Account</Text>
           </TouchableOpacity>
@@ -282,6 +376,17 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     paddingVertical: Spacing.md,
   },
+  blockedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  unblockText: {
+    fontSize: FontSizes.sm,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
   dangerSection: {
     borderWidth: 1,
     borderColor: 'rgba(255, 92, 92, 0.2)',
@@ -0,0 +1,433 @@
+/**
+ * Two-Factor Authentication Settings Screen for Nox Chat
+ * TOTP enrollment, backup codes and disabling 2FA
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Share,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Clipboard from 'expo-clipboard';
+import QRCode from 'react-native-qrcode-svg';
+import { Button, Card, Input } from '@/components/ui';
+import { Colors, FontSizes, Spacing, BorderRadius } from '@/constants/theme';
+import { useAuth } from '@/lib/auth-context';
+
+type Step = 'password' | 'verify' | 'backupCodes';
+
+/** Pulls the base32 secret out of an otpauth:// URI for manual entry */
+const getTotpSecret = (totpURI: string) => {
+  const match = /[?&]secret=([^&]+)/i.exec(totpURI);
+  return match ? decodeURIComponent(match[1]) : '';
+};
+
+export default function TwoFactorScreen() {
+  const router = useRouter();
+  const { user, enableTwoFactor, confirmTwoFactor, disableTwoFactor, generateBackupCodes } = useAuth();
+  const isEnabled = !!user?.twoFactorEnabled;
+
+  const [step, setStep] = useState<Step>('password');
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [totpURI, setTotpURI] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const runWithPassword = async (action: (password: string) => Promise<void>) => {
+    if (!password) {
+      setError('Please enter your password');
+      return;
+    }
+    setError('');
+    setIsLoading(true);
+    try {
+      await action(password);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStartSetup = () => runWithPassword(async (pwd) => {
+    const result = await enableTwoFactor(pwd);
+    if (result.success && result.totpURI) {
+      setTotpURI(result.totpURI);
+      setBackupCodes(result.backupCodes ?? []);
+      setPassword('');
+      setStep('verify');
+    } else {
+      setError(result.error || 'Failed to start setup');
+    }
+  });
+
+  const handleVerify = async () => {
+    if (code.trim().length !== 6) {
+      setError('Enter the 6-digit code from your authenticator app');
+      return;
+    }
+    setError('');
+    setIsLoading(true);
+    try {
+      const result = await confirmTwoFactor(code);
+      if (result.success) {
+        setCode('');
+        setStep('backupCodes');
+      } else {
+        setError(result.error || 'Invalid code');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRegenerateCodes = () => runWithPassword(async (pwd) => {
+    const result = await generateBackupCodes(pwd);
+    if (result.success && result.backupCodes) {
+      setBackupCodes(result.backupCodes);
+      setPassword('');
+      setStep('backupCodes');
+    } else {
+      setError(result.error || 'Failed to generate backup codes');
+    }
+  });
+
+  const handleDisable = () => {
+    Alert.alert(
+      'Disable Two-Factor Authentication',
+      'Your account will only be protected by your password.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Disable',
+          style: 'destructive',
+          onPress: () => runWithPassword(async (pwd) => {
+            const result = await disableTwoFactor(pwd);
+            if (result.success) {
+              setPassword('');
+              Alert.alert('Disabled', 'Two-factor authentication is now off.');
+            } else {
+              setError(result.error || 'Failed to disable two-factor authentication');
+            }
+          }),
+        },
+      ]
+    );
+  };
+
+  const handleCopy = async (text: string, label: string) => {
+    await Clipboard.setStringAsync(text);
+    Alert.alert('Copied', `${label} copied to clipboard`);
+  };
+
+  const handleShareCodes = () => {
+    Share.share({ message: `Nox backup codes:\n${backupCodes.join('\n')}` });
+  };
+
+  const handleDone = () => {
+    setBackupCodes([]);
+    setTotpURI('');
+    setStep('password');
+    router.back();
+  };
+
+  const renderError = () => error ? (
+    <View style={styles.errorContainer}>
+      <Text style={styles.errorText}>{error}</Text>
+    </View>
+  ) : null;
+
+  const renderPasswordInput = () => (
+    <Input
+      label="Password"
+      placeholder="Confirm your password"
+      value={password}
+      onChangeText={setPassword}
+      isPassword
+      editable={!isLoading}
+      leftIcon={<Ionicons name="lock-closed-outline" size={20} color={Colors.textMuted} />}
+    />
+  );
+
+  const renderContent = () => {
+    if (step === 'backupCodes') {
+      return (
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Backup Codes</Text>
+          <Text style={styles.description}>
+            Save these codes somewhere safe. Each one can be used once to sign in if you lose access to your authenticator app.
+          </Text>
+          <View style={styles.codesGrid}>
+            {backupCodes.map(backupCode => (
+              <Text key={backupCode} style={styles.backupCode} selectable>{backupCode}</Text>
+            ))}
+          </View>
+          <View style={styles.actionsRow}>
+            <TouchableOpacity style={styles.inlineAction} onPress={() => handleCopy(backupCodes.join('\n'), 'Backup codes')}>
+              <Ionicons name="copy-outline" size={18} color={Colors.primary} />
+              <Text style={styles.inlineActionText}>Copy</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.inlineAction} onPress={handleShareCodes}>
+              <Ionicons name="share-outline" size={18} color={Colors.primary} />
+              <Text style={styles.inlineActionText}>Share</Text>
+            </TouchableOpacity>
+          </View>
+          <Button onPress={handleDone} fullWidth>
+            Done
+          </Button>
+        </Card>
+      );
+    }
+
+    if (step === 'verify') {
+      const secret = getTotpSecret(totpURI);
+      return (
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Scan QR Code</Text>
+          <Text style={styles.description}>
+            Scan this code with an authenticator app such as Google Authenticator, 1Password or Authy.
+          </Text>
+          <View style={styles.qrContainer}>
+            <QRCode value={totpURI} size={200} backgroundColor="#FFFFFF" color="#000000" />
+          </View>
+          {secret ? (
+            <>
+              <Text style={styles.label}>Or enter this key manually</Text>
+              <TouchableOpacity style={styles.secretBox} onPress={() => handleCopy(secret, 'Setup key')}>
+                <Text style={styles.secretText} selectable>{secret}</Text>
+                <Ionicons name="copy-outline" size={18} color={Colors.primary} />
+              </TouchableOpacity>
+            </>
+          ) : null}
+          {renderError()}
+          <Input
+            label="Verification code"
+            placeholder="123456"
+            value={code}
+            onChangeText={setCode}
+            keyboardType="number-pad"
+            maxLength={6}
+            editable={!isLoading}
+            leftIcon={<Ionicons name="shield-checkmark-outline" size={20} color={Colors.textMuted} />}
+          />
+          <Button onPress={handleVerify} loading={isLoading} disabled={isLoading} fullWidth>
+            Verify and Enable
+          </Button>
+        </Card>
+      );
+    }
+
+    if (isEnabled) {
+      return (
+        <Card style={styles.section}>
+          <View style={styles.statusRow}>
+            <Ionicons name="shield-checkmark" size={24} color={Colors.primary} />
+            <Text style={styles.statusText}>Two-factor authentication is on</Text>
+          </View>
+          <Text style={styles.description}>
+            Enter your password to generate new backup codes or turn off two-factor authentication.
+          </Text>
+          {renderError()}
+          {renderPasswordInput()}
+          <Button variant="outline" onPress={handleRegenerateCodes} loading={isLoading} disabled={isLoading} fullWidth>
+            Generate New Backup Codes
+          </Button>
+          <Button variant="destructive" onPress={handleDisable} disabled={isLoading} fullWidth style={styles.disableButton}>
+            Disable Two-Factor Authentication
+          </Button>
+        </Card>
+      );
+    }
+
+    return (
+      <Card style={styles.section}>
+        <View style={styles.statusRow}>
+          <Ionicons name="shield-outline" size={24} color={Colors.textMuted} />
+          <Text style={styles.statusText}>Two-factor authentication is off</Text>
+        </View>
+        <Text style={styles.description}>
+          Add a second step to sign in with a code from an authenticator app. Enter your password to begin.
+        </Text>
+        {renderError()}
+        {renderPasswordInput()}
+        <Button onPress={handleStartSetup} loading={isLoading} disabled={isLoading} fullWidth>
+          Set Up
+        </Button>
+      </Card>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={() => router.back()}>
+          <Ionicons name="chevron-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Two-Factor Authentication</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView
+          style={styles.content}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {renderContent()}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: FontSizes.lg,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+  section: {
+    marginBottom: Spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: FontSizes.md,
+    fontWeight: '600',
+    color: Colors.primary,
+    marginBottom: Spacing.md,
+  },
+  description: {
+    fontSize: FontSizes.sm,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: Spacing.lg,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  statusText: {
+    fontSize: FontSizes.md,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  errorContainer: {
+    backgroundColor: 'rgba(255, 92, 92, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 92, 92, 0.2)',
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  errorText: {
+    color: Colors.error,
+    fontSize: FontSizes.sm,
+    textAlign: 'center',
+  },
+  qrContainer: {
+    alignSelf: 'center',
+    padding: Spacing.md,
+    backgroundColor: '#FFFFFF',
+    borderRadius: BorderRadius.lg,
+    marginBottom: Spacing.lg,
+  },
+  label: {
+    fontSize: FontSizes.sm,
+    fontWeight: '500',
+    color: Colors.textSecondary,
+    marginBottom: Spacing.sm,
+  },
+  secretBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    backgroundColor: Colors.background,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+  },
+  secretText: {
+    flex: 1,
+    fontSize: FontSizes.sm,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    color: Colors.text,
+  },
+  codesGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    rowGap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  backupCode: {
+    width: '48%',
+    paddingVertical: Spacing.sm,
+    textAlign: 'center',
+    fontSize: FontSizes.md,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    color: Colors.text,
+    backgroundColor: Colors.background,
+    borderRadius: BorderRadius.md,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: Spacing.xl,
+    marginBottom: Spacing.lg,
+  },
+  inlineAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  inlineActionText: {
+    fontSize: FontSizes.sm,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  disableButton: {
+    marginTop: Spacing.md,
+  },
+});
@@ -8,6 +8,11 @@ import 'react-native-reanimated';
 import { AuthProvider, useAuth } from '@/lib/auth-context';
 import { Colors } from '@/constants/theme';
 import { notificationService } from '@/lib/notification-service';
+import { setNudityClassifier } from '@/lib/nudity-sensor';
+import { localNudityClassifier } from '@/lib/nudity-classifier';
+
+// Enables the nudity sensor; the model itself loads on the first scan
+setNudityClassifier(localNudityClassifier);
 
 // Subscription type for notifications
 interface NotificationSubscription {
@@ -69,17 +74,20 @@ function RootLayoutNav() {
     if (isLoading) return;
 
     const inAuthGroup = segments[0] === '(auth)';
+    // Screens opened from email links navigate on their own once the link has been handled
+    const onEmailLinkScreen = inAuthGroup
+      && ['verify-email', 'reset-password'].includes((segments as string[])[1]);
     
     if (!isAuthenticated && !inAuthGroup) {
       // Redirect to login if not authenticated
       router.replace('/(auth)/login');
-    } else if (isAuthenticated && inAuthGroup) {
+    } else if (isAuthenticated && inAuthGroup && !onEmailLinkScreen) {
       // Redirect to chat if authenticated
       router.replace('/(chat)');
     }
   }, [isAuthenticated, isLoading, segments]);
 
-  // Handle deep links for invite URLs
+  // Handle deep links for invite, email verification and password reset URLs
   useEffect(() => {
     // Function to handle deep link URLs
     const handleDeepLink = (url: string | null) => {
@@ -87,9 +95,36 @@ function RootLayoutNav() {
       
       try {
         const parsedUrl = new URL(url);
+        // nox://verify-email parses with "verify-email" as the host
+        const path = parsedUrl.protocol === 'nox:'
+          ? `/${parsedUrl.host}${parsedUrl.pathname}`
+          : parsedUrl.pathname;
+
+        // Verification links: /verify-email?token=...
+        if (path.replace(/\/$/, '') === '/verify-email') {
+          const token = parsedUrl.searchParams.get('token');
+          const error = parsedUrl.searchParams.get('error');
+          if (token || error) {
+            router.replace({
+              pathname: '/(auth)/verify-email',
+              params: token ? { token } : { error: error! },
+            });
+          }
+          return;
+        }
+
+        // Password reset links: /reset-password?token=...
+        if (path.replace(/\/$/, '') === '/reset-password') {
+          const token = parsedUrl.searchParams.get('token');
+          router.replace({
+            pathname: '/(auth)/reset-password',
+            params: token ? { token } : { error: parsedUrl.searchParams.get('error') || 'INVALID_TOKEN' },
+          });
+          return;
+        }
         
         // Check for invite links: /groups/invite/:code
-        const inviteMatch = parsedUrl.pathname.match(/\/groups\/invite\/([^/]+)/);
+        const inviteMatch = path.match(/\/groups\/invite\/([^/]+)/);
         if (inviteMatch && inviteMatch[1]) {
           const inviteCode = inviteMatch[1];
           console.log('[DeepLink] Invite code detected:', inviteCode);
@@ -0,0 +1,82 @@
+/**
+ * Ban Member Sheet for Nox Chat
+ * Collects an optional reason and a duration before banning a group member
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { BottomSheet, Button, Input, OptionChips, ChipOption } from '@/components/ui';
+import { Colors, FontSizes, Spacing } from '@/constants/theme';
+import { GroupMember } from '@/lib/types';
+
+// null duration means the ban never expires
+const BAN_DURATIONS: ChipOption<number | null>[] = [
+  { label: '1 hour', value: 1 },
+  { label: '1 day', value: 24 },
+  { label: '1 week', value: 24 * 7 },
+  { label: '30 days', value: 24 * 30 },
+  { label: 'Permanent', value: null },
+];
+
+const DEFAULT_BAN_HOURS = 24;
+
+interface BanMemberSheetProps {
+  member: GroupMember | null;
+  onClose: () => void;
+  onBan: (member: GroupMember, options: { reason?: string; durationHours?: number }) => void;
+}
+
+export function BanMemberSheet({ member, onClose, onBan }: BanMemberSheetProps) {
+  const [reason, setReason] = useState('');
+  const [hours, setHours] = useState<number | null>(DEFAULT_BAN_HOURS);
+
+  // Start from the defaults each time the sheet opens for a member
+  useEffect(() => {
+    setReason('');
+    setHours(DEFAULT_BAN_HOURS);
+  }, [member?.id]);
+
+  return (
+    <BottomSheet
+      visible={!!member}
+      onClose={onClose}
+      title={member ? `Ban ${member.user.displayUsername || member.user.username || member.user.name}` : undefined}
+    >
+      {member && (
+        <View style={styles.body}>
+          <Input
+            label="Reason (optional)"
+            placeholder="Why is this member being banned?"
+            value={reason}
+            onChangeText={setReason}
+            maxLength={200}
+          />
+          <Text style={styles.label}>Duration</Text>
+          <OptionChips options={BAN_DURATIONS} value={hours} onChange={setHours} />
+          <Button
+            variant="destructive"
+            onPress={() => onBan(member, {
+              reason: reason.trim() || undefined,
+              durationHours: hours ?? undefined,
+            })}
+            fullWidth
+          >
+            Ban Member
+          </Button>
+        </View>
+      )}
+    </BottomSheet>
+  );
+}
+
+const styles = StyleSheet.create({
+  body: {
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.md,
+  },
+  label: {
+    fontSize: FontSizes.md,
+    color: Colors.text,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,78 @@
+/**
+ * Banned Members List for Nox Chat
+ * Group settings section listing active bans with an unban action
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Avatar } from '@/components/ui';
+import { Colors, FontSizes, Spacing } from '@/constants/theme';
+import { GroupBan } from '@/lib/types';
+
+interface BannedMembersListProps {
+  bans: GroupBan[];
+  onUnban: (ban: GroupBan) => void;
+}
+
+export function BannedMembersList({ bans, onUnban }: BannedMembersListProps) {
+  if (bans.length === 0) return null;
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Banned</Text>
+      {bans.map(ban => (
+        <View key={ban.id} style={styles.item}>
+          <Avatar source={ban.user.image} name={ban.user.name} size="md" />
+          <View style={styles.info}>
+            <Text style={styles.name}>{ban.user.displayUsername || ban.user.username || ban.user.name}</Text>
+            <Text style={styles.details} numberOfLines={1}>
+              {ban.expiresAt ? `Until ${new Date(ban.expiresAt).toLocaleDateString()}` : 'Permanent'}
+              {ban.reason ? ` · ${ban.reason}` : ''}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={() => onUnban(ban)}>
+            <Text style={styles.unbanText}>Unban</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: FontSizes.sm,
+    fontWeight: '600',
+    color: Colors.textMuted,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: Spacing.md,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    gap: Spacing.md,
+  },
+  info: {
+    flex: 1,
+  },
+  name: {
+    fontSize: FontSizes.md,
+    color: Colors.text,
+    fontWeight: '500',
+  },
+  details: {
+    fontSize: FontSizes.sm,
+    color: Colors.textMuted,
+  },
+  unbanText: {
+    fontSize: FontSizes.sm,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+});
@@ -0,0 +1,77 @@
+/**
+ * Create Invite Sheet for Nox Chat
+ * Picks an expiry and a use limit for a new limited group invite
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { BottomSheet, Button, OptionChips, ChipOption } from '@/components/ui';
+import { Colors, FontSizes, Spacing } from '@/constants/theme';
+
+// null means no limit
+const EXPIRY_OPTIONS: ChipOption<number | null>[] = [
+  { label: '1 hour', value: 1 },
+  { label: '1 day', value: 24 },
+  { label: '7 days', value: 24 * 7 },
+  { label: 'Never', value: null },
+];
+const MAX_USES_OPTIONS: ChipOption<number | null>[] = [
+  { label: '1 use', value: 1 },
+  { label: '5 uses', value: 5 },
+  { label: '25 uses', value: 25 },
+  { label: '100 uses', value: 100 },
+  { label: 'No limit', value: null },
+];
+
+const DEFAULT_EXPIRY_HOURS = 24;
+
+interface CreateInviteSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  onCreate: (options: { expiresInHours?: number; maxUses?: number }) => void;
+}
+
+export function CreateInviteSheet({ visible, onClose, onCreate }: CreateInviteSheetProps) {
+  const [expiryHours, setExpiryHours] = useState<number | null>(DEFAULT_EXPIRY_HOURS);
+  const [maxUses, setMaxUses] = useState<number | null>(null);
+
+  // Start from the defaults each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setExpiryHours(DEFAULT_EXPIRY_HOURS);
+      setMaxUses(null);
+    }
+  }, [visible]);
+
+  return (
+    <BottomSheet visible={visible} onClose={onClose} title="Create Invite">
+      <View style={styles.body}>
+        <Text style={styles.label}>Expires after</Text>
+        <OptionChips options={EXPIRY_OPTIONS} value={expiryHours} onChange={setExpiryHours} />
+        <Text style={styles.label}>Max uses</Text>
+        <OptionChips options={MAX_USES_OPTIONS} value={maxUses} onChange={setMaxUses} />
+        <Button
+          onPress={() => onCreate({
+            expiresInHours: expiryHours ?? undefined,
+            maxUses: maxUses ?? undefined,
+          })}
+          fullWidth
+        >
+          Create Invite
+        </Button>
+      </View>
+    </BottomSheet>
+  );
+}
+
+const styles = StyleSheet.create({
+  body: {
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.md,
+  },
+  label: {
+    fontSize: FontSizes.md,
+    color: Colors.text,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,117 @@
+/**
+ * Group Reports List for Nox Chat
+ * Admin inbox of open reports for a group, with resolve and dismiss actions
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Badge } from '@/components/ui';
+import { Colors, FontSizes, Spacing } from '@/constants/theme';
+import { GroupReport } from '@/lib/types';
+import { REPORT_CATEGORIES } from './ReportSheet';
+
+interface GroupReportsListProps {
+  reports: GroupReport[];
+  onResolve: (report: GroupReport, status: 'resolved' | 'dismissed') => void;
+}
+
+const getUserName = (user: GroupReport['reporter']) => user.displayUsername || user.username || user.name;
+
+export function GroupReportsList({ reports, onResolve }: GroupReportsListProps) {
+  if (reports.length === 0) return null;
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Reports ({reports.length})</Text>
+      {reports.map(report => (
+        <View key={report.id} style={styles.item}>
+          <View style={styles.header}>
+            <Badge variant="destructive">
+              {REPORT_CATEGORIES.find(c => c.value === report.category)?.label ?? report.category}
+            </Badge>
+            <Text style={styles.name} numberOfLines={1}>{getUserName(report.reportedUser)}</Text>
+          </View>
+          <Text style={styles.details}>
+            Reported by {getUserName(report.reporter)} on {new Date(report.createdAt).toLocaleDateString()}
+          </Text>
+          {report.note && <Text style={styles.note}>{report.note}</Text>}
+          {report.messages.map(message => (
+            <Text key={message.id} style={styles.message} numberOfLines={3}>
+              {message.deletedAt ? 'Deleted message' : message.content || 'Attachment'}
+            </Text>
+          ))}
+          <View style={styles.actions}>
+            <TouchableOpacity onPress={() => onResolve(report, 'dismissed')}>
+              <Text style={styles.dismissText}>Dismiss</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => onResolve(report, 'resolved')}>
+              <Text style={styles.resolveText}>Resolve</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: FontSizes.sm,
+    fontWeight: '600',
+    color: Colors.textMuted,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: Spacing.md,
+  },
+  item: {
+    gap: Spacing.xs,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  name: {
+    fontSize: FontSizes.md,
+    color: Colors.text,
+    fontWeight: '500',
+  },
+  details: {
+    fontSize: FontSizes.sm,
+    color: Colors.textMuted,
+  },
+  note: {
+    fontSize: FontSizes.sm,
+    color: Colors.text,
+  },
+  message: {
+    fontSize: FontSizes.sm,
+    color: Colors.textSecondary,
+    borderLeftWidth: 2,
+    borderLeftColor: Colors.border,
+    paddingLeft: Spacing.sm,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.lg,
+    marginTop: Spacing.xs,
+  },
+  dismissText: {
+    fontSize: FontSizes.sm,
+    fontWeight: '600',
+    color: Colors.textMuted,
+  },
+  resolveText: {
+    fontSize: FontSizes.sm,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+});
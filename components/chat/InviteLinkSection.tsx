@@ -0,0 +1,171 @@
+/**
+ * Invite Link Section for Nox Chat
+ * Group settings section with the main invite link and, for admins, limited invites
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors, BorderRadius, FontSizes, Spacing } from '@/constants/theme';
+import { getInviteUrl } from '@/lib/api-config';
+import { GroupInvite } from '@/lib/types';
+
+interface InviteLinkSectionProps {
+  inviteCode: string;
+  invites: GroupInvite[];
+  isAdmin: boolean;
+  onCopy: (url: string) => void;
+  onShare: (url: string) => void;
+  onShowQr: (url: string) => void;
+  onReset: () => void;
+  onRevoke: (invite: GroupInvite) => void;
+  onCreate: () => void;
+}
+
+const describeInvite = (invite: GroupInvite) => {
+  const uses = invite.maxUses ? `${invite.uses}/${invite.maxUses} uses` : `${invite.uses} uses`;
+  const expiry = invite.expiresAt
+    ? `expires ${new Date(invite.expiresAt).toLocaleString()}`
+    : 'never expires';
+  return `${uses} · ${expiry}`;
+};
+
+export function InviteLinkSection({
+  inviteCode,
+  invites,
+  isAdmin,
+  onCopy,
+  onShare,
+  onShowQr,
+  onReset,
+  onRevoke,
+  onCreate,
+}: InviteLinkSectionProps) {
+  const url = getInviteUrl(inviteCode);
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Invite Link</Text>
+      <Text style={styles.url} selectable>
+        {url}
+      </Text>
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.action} onPress={() => onCopy(url)}>
+          <Ionicons name="copy-outline" size={18} color={Colors.primary} />
+          <Text style={styles.actionText}>Copy</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.action} onPress={() => onShare(url)}>
+          <Ionicons name="share-outline" size={18} color={Colors.primary} />
+          <Text style={styles.actionText}>Share</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.action} onPress={() => onShowQr(url)}>
+          <Ionicons name="qr-code-outline" size={18} color={Colors.primary} />
+          <Text style={styles.actionText}>QR Code</Text>
+        </TouchableOpacity>
+        {isAdmin && (
+          <TouchableOpacity style={styles.action} onPress={onReset}>
+            <Ionicons name="refresh-outline" size={18} color={Colors.error} />
+            <Text style={[styles.actionText, styles.actionTextDanger]}>Reset</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {/* Limited invites (admin only) */}
+      {isAdmin && (
+        <>
+          {invites.map(invite => (
+            <View key={invite.id} style={styles.invite}>
+              <View style={styles.inviteInfo}>
+                <Text style={styles.inviteCode} numberOfLines={1}>{invite.code}</Text>
+                <Text style={styles.inviteDetails} numberOfLines={1}>{describeInvite(invite)}</Text>
+              </View>
+              <TouchableOpacity onPress={() => onCopy(getInviteUrl(invite.code))}>
+                <Ionicons name="copy-outline" size={20} color={Colors.textSecondary} />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => onShowQr(getInviteUrl(invite.code))}>
+                <Ionicons name="qr-code-outline" size={20} color={Colors.textSecondary} />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => onRevoke(invite)}>
+                <Ionicons name="close-circle-outline" size={20} color={Colors.error} />
+              </TouchableOpacity>
+            </View>
+          ))}
+          <TouchableOpacity style={styles.createButton} onPress={onCreate}>
+            <Ionicons name="add-circle-outline" size={20} color={Colors.primary} />
+            <Text style={styles.actionText}>Create Limited Invite</Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  sectionTitle: {
+    fontSize: FontSizes.sm,
+    fontWeight: '600',
+    color: Colors.textMuted,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: Spacing.md,
+  },
+  url: {
+    fontSize: FontSizes.sm,
+    color: Colors.text,
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.sm,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.lg,
+    marginTop: Spacing.md,
+  },
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  actionText: {
+    fontSize: FontSizes.sm,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  actionTextDanger: {
+    color: Colors.error,
+  },
+  invite: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    paddingVertical: Spacing.sm,
+    marginTop: Spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  inviteInfo: {
+    flex: 1,
+  },
+  inviteCode: {
+    fontSize: FontSizes.md,
+    color: Colors.text,
+    fontWeight: '500',
+  },
+  inviteDetails: {
+    fontSize: FontSizes.sm,
+    color: Colors.textMuted,
+  },
+  createButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginTop: Spacing.md,
+  },
+});
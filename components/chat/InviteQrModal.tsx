@@ -0,0 +1,67 @@
+/**
+ * Invite QR Modal for Nox Chat
+ * Shows an invite link as a QR code that can be scanned to join a group
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, Modal, Pressable } from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import { Button } from '@/components/ui';
+import { Colors, BorderRadius, FontSizes, Spacing } from '@/constants/theme';
+
+interface InviteQrModalProps {
+  url: string | null;
+  onClose: () => void;
+  onShare: (url: string) => void;
+}
+
+export function InviteQrModal({ url, onClose, onShare }: InviteQrModalProps) {
+  return (
+    <Modal
+      visible={!!url}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        {url && (
+          <View style={styles.card}>
+            <View style={styles.codeWrapper}>
+              <QRCode value={url} size={220} backgroundColor="#FFFFFF" color={Colors.background} />
+            </View>
+            <Text style={styles.hint}>Scan to join the group</Text>
+            <Button variant="outline" onPress={() => onShare(url)} fullWidth>
+              Share Link
+            </Button>
+          </View>
+        )}
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.xl,
+    padding: Spacing.lg,
+    alignItems: 'center',
+    gap: Spacing.md,
+    width: 280,
+  },
+  codeWrapper: {
+    padding: Spacing.md,
+    backgroundColor: '#FFFFFF',
+    borderRadius: BorderRadius.md,
+  },
+  hint: {
+    fontSize: FontSizes.sm,
+    color: Colors.textSecondary,
+  },
+});
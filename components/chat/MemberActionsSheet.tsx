@@ -0,0 +1,75 @@
+/**
+ * Member Actions Sheet for Nox Chat
+ * Admin actions for a single group member: change role, remove or ban
+ */
+
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { BottomSheet } from '@/components/ui';
+import { Colors, FontSizes, Spacing } from '@/constants/theme';
+import { GroupMember } from '@/lib/types';
+
+interface MemberActionsSheetProps {
+  member: GroupMember | null;
+  onClose: () => void;
+  onChangeRole: (member: GroupMember, role: GroupMember['role']) => void;
+  onRemove: (member: GroupMember) => void;
+  onBan: (member: GroupMember) => void;
+}
+
+export function MemberActionsSheet({ member, onClose, onChangeRole, onRemove, onBan }: MemberActionsSheetProps) {
+  return (
+    <BottomSheet
+      visible={!!member}
+      onClose={onClose}
+      animationType="fade"
+      title={member ? member.user.displayUsername || member.user.username || member.user.name : undefined}
+    >
+      {member && (
+        <>
+          {member.role === 'ADMIN' ? (
+            <TouchableOpacity style={styles.option} onPress={() => onChangeRole(member, 'MEMBER')}>
+              <Ionicons name="arrow-down-circle-outline" size={20} color={Colors.text} />
+              <Text style={styles.optionText}>Demote to Member</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity style={styles.option} onPress={() => onChangeRole(member, 'ADMIN')}>
+              <Ionicons name="shield-checkmark-outline" size={20} color={Colors.text} />
+              <Text style={styles.optionText}>Promote to Admin</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={[styles.option, styles.optionDanger]} onPress={() => onRemove(member)}>
+            <Ionicons name="person-remove-outline" size={20} color={Colors.error} />
+            <Text style={[styles.optionText, styles.optionTextDanger]}>Remove from Group</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.option} onPress={() => onBan(member)}>
+            <Ionicons name="ban-outline" size={20} color={Colors.error} />
+            <Text style={[styles.optionText, styles.optionTextDanger]}>Ban</Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </BottomSheet>
+  );
+}
+
+const styles = StyleSheet.create({
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    gap: Spacing.md,
+  },
+  optionDanger: {
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  optionText: {
+    fontSize: FontSizes.md,
+    color: Colors.text,
+  },
+  optionTextDanger: {
+    color: Colors.error,
+  },
+});
@@ -0,0 +1,97 @@
+/**
+ * Report Sheet for Nox Chat
+ * Category picker and optional note for reporting a message, user or group
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { BottomSheet, Button, Input, OptionChips, ChipOption } from '@/components/ui';
+import { Colors, FontSizes, Spacing } from '@/constants/theme';
+import { ReportCategory, ReportTarget } from '@/lib/types';
+
+export const REPORT_CATEGORIES: ChipOption<ReportCategory | null>[] = [
+  { label: 'Spam', value: 'spam' },
+  { label: 'Harassment', value: 'harassment' },
+  { label: 'NSFW', value: 'nsfw' },
+  { label: 'Other', value: 'other' },
+];
+
+const getReportTitle = (target: ReportTarget) => {
+  switch (target.type) {
+    case 'message':
+      return 'Report Message';
+    case 'user':
+      return `Report ${target.user.displayUsername || target.user.username || target.user.name}`;
+    case 'group':
+      return `Report ${target.group.name}`;
+  }
+};
+
+interface ReportSheetProps {
+  target: ReportTarget | null;
+  onClose: () => void;
+  onSubmit: (category: ReportCategory, note?: string) => Promise<void>;
+}
+
+export function ReportSheet({ target, onClose, onSubmit }: ReportSheetProps) {
+  const [category, setCategory] = useState<ReportCategory | null>(null);
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Start from a blank report each time the sheet opens
+  useEffect(() => {
+    if (target) {
+      setCategory(null);
+      setNote('');
+    }
+  }, [target]);
+
+  const handleSubmit = async () => {
+    if (!category) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(category, note.trim() || undefined);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <BottomSheet visible={!!target} onClose={onClose} title={target ? getReportTitle(target) : undefined}>
+      <View style={styles.body}>
+        <Text style={styles.label}>What is wrong?</Text>
+        <OptionChips options={REPORT_CATEGORIES} value={category} onChange={setCategory} />
+        <Input
+          label="Note (optional)"
+          placeholder="Add any details that will help us review this"
+          value={note}
+          onChangeText={setNote}
+          maxLength={500}
+          multiline
+        />
+        <Button
+          variant="destructive"
+          onPress={handleSubmit}
+          disabled={!category}
+          loading={isSubmitting}
+          fullWidth
+        >
+          Send Report
+        </Button>
+      </View>
+    </BottomSheet>
+  );
+}
+
+const styles = StyleSheet.create({
+  body: {
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.md,
+  },
+  label: {
+    fontSize: FontSizes.md,
+    color: Colors.text,
+    fontWeight: '500',
+  },
+});
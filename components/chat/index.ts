@@ -0,0 +1,12 @@
+/**
+ * Chat components index
+ */
+
+export { MemberActionsSheet } from './MemberActionsSheet';
+export { BanMemberSheet } from './BanMemberSheet';
+export { BannedMembersList } from './BannedMembersList';
+export { InviteLinkSection } from './InviteLinkSection';
+export { InviteQrModal } from './InviteQrModal';
+export { CreateInviteSheet } from './CreateInviteSheet';
+export { ReportSheet, REPORT_CATEGORIES } from './ReportSheet';
+export { GroupReportsList } from './GroupReportsList';
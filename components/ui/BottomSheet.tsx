@@ -0,0 +1,66 @@
+/**
+ * BottomSheet Component for Nox Chat
+ * Modal sheet anchored to the bottom of the screen, dismissed by tapping outside
+ */
+
+import React from 'react';
+import { Text, StyleSheet, Modal, Pressable, KeyboardAvoidingView, Platform } from 'react-native';
+import { Colors, BorderRadius, FontSizes, Spacing } from '@/constants/theme';
+
+interface BottomSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  title?: string;
+  animationType?: 'slide' | 'fade';
+  children: React.ReactNode;
+}
+
+export function BottomSheet({ visible, onClose, title, animationType = 'slide', children }: BottomSheetProps) {
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType={animationType}
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <Pressable style={styles.overlay} onPress={onClose}>
+          {/* Inner Pressable keeps taps on the sheet from closing it */}
+          <Pressable style={styles.sheet}>
+            {title ? <Text style={styles.title}>{title}</Text> : null}
+            {children}
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  keyboardView: {
+    flex: 1,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    paddingTop: Spacing.md,
+    paddingBottom: Spacing.xl,
+  },
+  title: {
+    fontSize: FontSizes.md,
+    fontWeight: '600',
+    color: Colors.text,
+    textAlign: 'center',
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.sm,
+  },
+});
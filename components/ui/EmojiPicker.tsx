@@ -0,0 +1,192 @@
+/**
+ * Emoji Picker Component for Nox Chat
+ * Bottom sheet with categorized emoji, used for message reactions
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Modal, Pressable, TouchableOpacity, FlatList } from 'react-native';
+import { Colors, BorderRadius, FontSizes, Spacing } from '@/constants/theme';
+
+interface EmojiPickerProps {
+  visible: boolean;
+  onSelect: (emoji: string) => void;
+  onClose: () => void;
+}
+
+const EMOJI_CATEGORIES: { icon: string; name: string; emojis: string[] }[] = [
+  {
+    icon: '😀',
+    name: 'Smileys',
+    emojis: [
+      '😀', '😃', '😄', '😁', '😆', '😅', '🤣', '😂', '🙂', '🙃', '😉', '😊',
+      '😇', '🥰', '😍', '🤩', '😘', '😋', '😛', '😜', '🤪', '😝', '🤗', '🤭',
+      '🤫', '🤔', '🤐', '🤨', '😐', '😑', '😶', '😏', '😒', '🙄', '😬', '😌',
+      '😔', '😪', '😴', '😷', '🤒', '🤢', '🤮', '🥵', '🥶', '😵', '🤯', '🥳',
+      '😎', '🤓', '😕', '😟', '🙁', '😮', '😯', '😲', '😳', '🥺', '😦', '😧',
+      '😨', '😰', '😥', '😢', '😭', '😱', '😖', '😣', '😞', '😓', '😩', '😫',
+      '😤', '😡', '😠', '🤬', '😈', '💀', '💩', '🤡', '👻', '👽', '🤖',
+    ],
+  },
+  {
+    icon: '👍',
+    name: 'People',
+    emojis: [
+      '👍', '👎', '👌', '✌️', '🤞', '🤟', '🤘', '🤙', '👈', '👉', '👆', '👇',
+      '☝️', '✋', '🤚', '🖐️', '🖖', '👋', '👏', '🙌', '👐', '🤲', '🤝', '🙏',
+      '✍️', '💪', '🦾', '👀', '👁️', '🧠', '🫶', '🤷', '🤦', '🙋', '🙇', '💃',
+      '🕺', '🏃', '🚶', '🧘',
+    ],
+  },
+  {
+    icon: '🐶',
+    name: 'Nature',
+    emojis: [
+      '🐶', '🐱', '🐭', '🐹', '🐰', '🦊', '🐻', '🐼', '🐨', '🐯', '🦁', '🐮',
+      '🐷', '🐸', '🐵', '🐔', '🐧', '🐦', '🦆', '🦅', '🦉', '🐺', '🐴', '🦄',
+      '🐝', '🦋', '🐌', '🐞', '🐢', '🐍', '🐙', '🦈', '🐬', '🐳', '🌵', '🌲',
+      '🌴', '🌱', '🍀', '🍁', '🌸', '🌹', '🌻', '🌞', '🌙', '⭐', '🌈', '🔥',
+      '⚡', '❄️', '🌊',
+    ],
+  },
+  {
+    icon: '🍕',
+    name: 'Food',
+    emojis: [
+      '🍏', '🍎', '🍐', '🍊', '🍋', '🍌', '🍉', '🍇', '🍓', '🍒', '🍑', '🥭',
+      '🍍', '🥥', '🥑', '🍆', '🥕', '🌽', '🌶️', '🥐', '🍞', '🧀', '🥚', '🥓',
+      '🍔', '🍟', '🍕', '🌭', '🌮', '🌯', '🍣', '🍜', '🍩', '🍪', '🎂', '🍰',
+      '🍫', '🍿', '☕', '🍵', '🍺', '🍻', '🥂', '🍷', '🍸',
+    ],
+  },
+  {
+    icon: '⚽',
+    name: 'Activities',
+    emojis: [
+      '⚽', '🏀', '🏈', '⚾', '🎾', '🏐', '🏉', '🎱', '🏓', '🏸', '🥊', '⛳',
+      '🎣', '🎿', '🏂', '🏆', '🥇', '🥈', '🥉', '🏅', '🎮', '🕹️', '🎲', '🧩',
+      '🎯', '🎳', '🎸', '🎹', '🎺', '🎻', '🥁', '🎤', '🎧', '🎬', '🎨', '🎉',
+      '🎊', '🎁', '🎈',
+    ],
+  },
+  {
+    icon: '💡',
+    name: 'Objects',
+    emojis: [
+      '⌚', '📱', '💻', '⌨️', '🖥️', '🖨️', '📷', '📹', '📺', '📻', '⏰', '🔋',
+      '💡', '🔦', '💸', '💰', '💳', '💎', '🔧', '🔨', '🛠️', '🔑', '🔒', '🔓',
+      '🚀', '✈️', '🚗', '🚲', '🏠', '📦', '📚', '📝', '✏️', '📌', '📎', '✂️',
+      '🗑️', '🔔', '🔕',
+    ],
+  },
+  {
+    icon: '❤️',
+    name: 'Symbols',
+    emojis: [
+      '❤️', '🧡', '💛', '💚', '💙', '💜', '🖤', '🤍', '🤎', '💔', '❣️', '💕',
+      '💞', '💓', '💗', '💖', '💘', '💝', '💯', '💢', '💥', '💫', '💦', '💨',
+      '💬', '💭', '💤', '✅', '❌', '❓', '❗', '‼️', '⁉️', '⚠️', '🚫', '⛔',
+      '♻️', '✨', '🆗', '🆒', '🆕', '🔝', '🎵', '➕', '➖',
+    ],
+  },
+];
+
+const COLUMNS = 8;
+
+export function EmojiPicker({ visible, onSelect, onClose }: EmojiPickerProps) {
+  const [categoryIndex, setCategoryIndex] = useState(0);
+  const category = EMOJI_CATEGORIES[categoryIndex];
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={styles.sheet}>
+          <View style={styles.handle} />
+
+          <View style={styles.tabs}>
+            {EMOJI_CATEGORIES.map((item, index) => (
+              <TouchableOpacity
+                key={item.name}
+                style={[styles.tab, index === categoryIndex && styles.tabActive]}
+                onPress={() => setCategoryIndex(index)}
+                accessibilityLabel={item.name}
+              >
+                <Text style={styles.tabIcon}>{item.icon}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.categoryName}>{category.name}</Text>
+
+          <FlatList
+            key={category.name}
+            data={category.emojis}
+            keyExtractor={(item) => item}
+            numColumns={COLUMNS}
+            showsVerticalScrollIndicator={false}
+            renderItem={({ item }) => (
+              <TouchableOpacity style={styles.emojiButton} onPress={() => onSelect(item)}>
+                <Text style={styles.emoji}>{item}</Text>
+              </TouchableOpacity>
+            )}
+          />
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: Colors.overlay,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    height: '50%',
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    paddingHorizontal: Spacing.md,
+    paddingBottom: Spacing.lg,
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.borderLight,
+    marginVertical: Spacing.sm,
+  },
+  tabs: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+    paddingBottom: Spacing.sm,
+  },
+  tab: {
+    padding: Spacing.xs,
+    borderRadius: BorderRadius.md,
+  },
+  tabActive: {
+    backgroundColor: Colors.surfaceElevated,
+  },
+  tabIcon: {
+    fontSize: 22,
+  },
+  categoryName: {
+    fontSize: FontSizes.sm,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    marginVertical: Spacing.sm,
+  },
+  emojiButton: {
+    flex: 1 / COLUMNS,
+    aspectRatio: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emoji: {
+    fontSize: 28,
+  },
+});
@@ -1,24 +1,55 @@
 /**
  * LinkText Component
  * Renders text with clickable links that open in the device browser
+ * and, when onMentionPress is given, tappable @mentions
  */
 
 import React, { useMemo, useCallback } from 'react';
 import { Text, Linking, StyleSheet, TextStyle, Alert } from 'react-native';
 import { Colors } from '@/constants/theme';
+import { MENTION_REGEX } from '@/lib/mentions';
 
 interface LinkTextProps {
   children: string;
   style?: TextStyle;
   linkStyle?: TextStyle;
+  mentionStyle?: TextStyle;
+  onMentionPress?: (username: string) => void;
 }
 
+type Segment = { type: 'text' | 'link' | 'mention'; content: string };
+
 // URL regex pattern - matches http, https, and www URLs
 const URL_REGEX = /(?:https?:\/\/|www\.)[^\s<>"\[\]{}|\\^`]+/gi;
 
+// Split a plain text segment into text and @mentions
+const parseMentions = (text: string): Segment[] => {
+  const segments: Segment[] = [];
+  let lastIndex = 0;
+
+  MENTION_REGEX.lastIndex = 0;
+
+  let match;
+  while ((match = MENTION_REGEX.exec(text)) !== null) {
+    // The leading whitespace belongs to the text before the mention
+    const start = match.index + match[1].length;
+    if (start > lastIndex) {
+      segments.push({ type: 'text', content: text.substring(lastIndex, start) });
+    }
+    segments.push({ type: 'mention', content: text.substring(start, match.index + match[0].length) });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', content: text.substring(lastIndex) });
+  }
+
+  return segments;
+};
+
 // Parse text into segments of plain text and links
-const parseText = (text: string): Array<{ type: 'text' | 'link'; content: string }> => {
-  const segments: Array<{ type: 'text' | 'link'; content: string }> = [];
+const parseText = (text: string): Segment[] => {
+  const segments: Segment[] = [];
   let lastIndex = 0;
 
   // Reset regex state
@@ -54,8 +85,12 @@ const parseText = (text: string): Array<{ type: 'text' | 'link'; content: string
   return segments;
 };
 
-export const LinkText: React.FC<LinkTextProps> = ({ children, style, linkStyle }) => {
-  const segments = useMemo(() => parseText(children), [children]);
+export const LinkText: React.FC<LinkTextProps> = ({ children, style, linkStyle, mentionStyle, onMentionPress }) => {
+  const segments = useMemo(() => {
+    const parsed = parseText(children);
+    if (!onMentionPress) return parsed;
+    return parsed.flatMap(segment => segment.type === 'text' ? parseMentions(segment.content) : [segment]);
+  }, [children, onMentionPress]);
 
   const handleLinkPress = useCallback(async (url: string) => {
     try {
@@ -85,6 +120,17 @@ export const LinkText: React.FC<LinkTextProps> = ({ children, style, linkStyle }
   return (
     <Text style={style}>
       {segments.map((segment, index) => {
+        if (segment.type === 'mention' && onMentionPress) {
+          return (
+            <Text
+              key={index}
+              style={[styles.mention, mentionStyle]}
+              onPress={() => onMentionPress(segment.content.substring(1))}
+            >
+              {segment.content}
+            </Text>
+          );
+        }
         if (segment.type === 'link') {
           return (
             <Text
@@ -107,6 +153,10 @@ const styles = StyleSheet.create({
     color: Colors.primary,
     textDecorationLine: 'underline',
   },
+  mention: {
+    color: Colors.primary,
+    fontWeight: '600',
+  },
 });
 
 export default LinkText;
@@ -0,0 +1,65 @@
+/**
+ * OptionChips Component for Nox Chat
+ * Single-select row of pill buttons for short option lists
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Colors, BorderRadius, FontSizes, Spacing } from '@/constants/theme';
+
+export interface ChipOption<T> {
+  label: string;
+  value: T;
+}
+
+interface OptionChipsProps<T> {
+  options: ChipOption<T>[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+export function OptionChips<T>({ options, value, onChange }: OptionChipsProps<T>) {
+  return (
+    <View style={styles.container}>
+      {options.map(option => {
+        const selected = option.value === value;
+        return (
+          <TouchableOpacity
+            key={option.label}
+            style={[styles.chip, selected && styles.chipActive]}
+            onPress={() => onChange(option.value)}
+          >
+            <Text style={[styles.text, selected && styles.textActive]}>{option.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipActive: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.surfaceElevated,
+  },
+  text: {
+    fontSize: FontSizes.sm,
+    color: Colors.textSecondary,
+  },
+  textActive: {
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,128 @@
+/**
+ * PasswordStrength Component for Nox Chat
+ * Live checklist and strength bar driven by validatePassword
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { validatePassword } from '@/lib/security';
+import { Colors, BorderRadius, FontSizes, Spacing } from '@/constants/theme';
+
+// Every rule an empty password fails, so the checklist stays in sync with validatePassword
+const REQUIREMENTS = validatePassword('').errors;
+
+const STRENGTH_LEVELS = [
+  { label: 'Weak', color: Colors.error },
+  { label: 'Fair', color: Colors.warning },
+  { label: 'Good', color: Colors.info },
+  { label: 'Strong', color: Colors.success },
+];
+
+function requirementLabel(error: string) {
+  const text = error.replace(/^Password must (be )?/, '');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+interface PasswordStrengthProps {
+  password: string;
+  style?: ViewStyle;
+}
+
+export function PasswordStrength({ password, style }: PasswordStrengthProps) {
+  const { valid, errors } = validatePassword(password);
+  const metCount = REQUIREMENTS.filter(requirement => !errors.includes(requirement)).length;
+  // Failures outside the checklist (e.g. too long) are shown on their own
+  const otherErrors = errors.filter(error => !REQUIREMENTS.includes(error));
+
+  // Only a fully valid password reads as Strong
+  const level = valid
+    ? STRENGTH_LEVELS[STRENGTH_LEVELS.length - 1]
+    : STRENGTH_LEVELS[Math.min(Math.max(metCount - 1, 0), STRENGTH_LEVELS.length - 2)];
+
+  return (
+    <View style={[styles.container, style]}>
+      {password ? (
+        <View style={styles.meterRow}>
+          <View style={styles.meterTrack}>
+            <View
+              style={[
+                styles.meterFill,
+                { width: `${(valid ? 1 : metCount / REQUIREMENTS.length) * 100}%`, backgroundColor: level.color },
+              ]}
+            />
+          </View>
+          <Text style={[styles.levelText, { color: level.color }]}>{level.label}</Text>
+        </View>
+      ) : null}
+
+      {REQUIREMENTS.map(requirement => {
+        const met = !errors.includes(requirement);
+        return (
+          <View key={requirement} style={styles.requirementRow}>
+            <Ionicons
+              name={met ? 'checkmark-circle' : 'ellipse-outline'}
+              size={16}
+              color={met ? Colors.success : Colors.textMuted}
+            />
+            <Text style={[styles.requirementText, met && styles.requirementMet]}>
+              {requirementLabel(requirement)}
+            </Text>
+          </View>
+        );
+      })}
+
+      {otherErrors.map(error => (
+        <View key={error} style={styles.requirementRow}>
+          <Ionicons name="close-circle" size={16} color={Colors.error} />
+          <Text style={[styles.requirementText, styles.requirementFailed]}>{error}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: Spacing.lg,
+  },
+  meterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: Spacing.sm,
+  },
+  meterTrack: {
+    flex: 1,
+    height: 4,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.surfaceHover,
+    overflow: 'hidden',
+  },
+  meterFill: {
+    height: '100%',
+    borderRadius: BorderRadius.full,
+  },
+  levelText: {
+    fontSize: FontSizes.xs,
+    fontWeight: '600',
+    marginLeft: Spacing.sm,
+    minWidth: 44,
+    textAlign: 'right',
+  },
+  requirementRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: Spacing.xs,
+  },
+  requirementText: {
+    fontSize: FontSizes.sm,
+    color: Colors.textMuted,
+    marginLeft: Spacing.sm,
+  },
+  requirementMet: {
+    color: Colors.textSecondary,
+  },
+  requirementFailed: {
+    color: Colors.error,
+  },
+});
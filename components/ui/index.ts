@@ -8,3 +8,8 @@ export { Card } from './Card';
 export { Avatar } from './Avatar';
 export { Badge } from './Badge';
 export { LinkText } from './LinkText';
+export { EmojiPicker } from './EmojiPicker';
+export { PasswordStrength } from './PasswordStrength';
+export { BottomSheet } from './BottomSheet';
+export { OptionChips } from './OptionChips';
+export type { ChipOption } from './OptionChips';
@@ -9,11 +9,13 @@ export const Colors = {
   // Primary accent color - Neon Green
   primary: '#00FF9A',
   primaryDark: '#00D084',
+  primaryMuted: 'rgba(0, 255, 154, 0.35)',
   
   // Core backgrounds (Dark theme)
   background: '#0B0F0D',      // Deep black
   surface: '#111816',          // Dark charcoal (cards)
   surfaceElevated: '#17211D',  // Graphite (elevated surfaces)
+  surfaceHover: '#1E2B26',     // Pressed / switch track
   
   // Text colors
   text: '#FFFFFF',             // Primary text - Pure white
@@ -0,0 +1,64 @@
+import * as jpeg from 'jpeg-js';
+import { localNudityClassifier } from '../nudity-classifier';
+import { getNudityVerdict, hasNudityClassifier, scanImage, setNudityClassifier } from '../nudity-sensor';
+
+// Only the native resize step is replaced; decoding and the model run for real
+const mockManipulate = jest.fn();
+jest.mock('expo-image-manipulator', () => ({
+  ImageManipulator: { manipulate: (uri: string) => mockManipulate(uri) },
+  SaveFormat: { JPEG: 'jpeg' },
+}));
+
+// 224x224 JPEG with a smooth colour gradient
+const createGradientJpeg = () => {
+  const size = 224;
+  const data = Buffer.alloc(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const offset = (y * size + x) * 4;
+      data[offset] = x;
+      data[offset + 1] = y;
+      data[offset + 2] = 160;
+      data[offset + 3] = 255;
+    }
+  }
+  return jpeg.encode({ width: size, height: size, data }, 90).data.toString('base64');
+};
+
+beforeAll(() => {
+  jest.spyOn(console, 'info').mockImplementation(() => {});
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+  const base64 = createGradientJpeg();
+  mockManipulate.mockImplementation(() => {
+    const context: { resize: jest.Mock; renderAsync: jest.Mock } = {
+      resize: jest.fn(() => context),
+      renderAsync: jest.fn(async () => ({
+        saveAsync: jest.fn(async () => ({ uri: 'file:///resized.jpg', width: 224, height: 224, base64 })),
+      })),
+    };
+    return context;
+  });
+});
+
+afterAll(() => {
+  setNudityClassifier(null);
+  jest.restoreAllMocks();
+});
+
+describe('localNudityClassifier', () => {
+  it('scans images through the bundled model once registered', async () => {
+    setNudityClassifier(localNudityClassifier);
+    expect(hasNudityClassifier()).toBe(true);
+
+    const result = await scanImage('file:///photo.jpg');
+
+    expect(mockManipulate).toHaveBeenCalledWith('file:///photo.jpg');
+    expect(result).not.toBeNull();
+    expect(result!.score).toBeGreaterThanOrEqual(0);
+    expect(result!.score).toBeLessThanOrEqual(1);
+    expect(result!.verdict).toBe(getNudityVerdict(result!.score));
+    expect(result!.verdict).toBe('allow');
+  }, 60000);
+});
@@ -0,0 +1,92 @@
+import {
+  NudityClassifier,
+  NUDITY_BLOCK_THRESHOLD,
+  NUDITY_WARN_THRESHOLD,
+  getNudityVerdict,
+  hasNudityClassifier,
+  scanImage,
+  setNudityClassifier,
+} from '../nudity-sensor';
+
+// Stub classifier that returns a fixed score per URI
+const createStubClassifier = (scores: Record<string, number>) => {
+  const classify = jest.fn(async (uri: string) => {
+    if (!(uri in scores)) throw new Error(`No score for ${uri}`);
+    return scores[uri];
+  });
+  const classifier: NudityClassifier = { classify };
+  return { classifier, classify };
+};
+
+afterEach(() => {
+  setNudityClassifier(null);
+  jest.restoreAllMocks();
+});
+
+describe('getNudityVerdict', () => {
+  it('uses 0.6 and 0.9 as the warn and block thresholds', () => {
+    expect(NUDITY_WARN_THRESHOLD).toBe(0.6);
+    expect(NUDITY_BLOCK_THRESHOLD).toBe(0.9);
+  });
+
+  it('allows scores below the warn threshold', () => {
+    expect(getNudityVerdict(0)).toBe('allow');
+    expect(getNudityVerdict(0.59)).toBe('allow');
+  });
+
+  it('warns from the warn threshold up to the block threshold', () => {
+    expect(getNudityVerdict(0.6)).toBe('warn');
+    expect(getNudityVerdict(0.89)).toBe('warn');
+  });
+
+  it('blocks at and above the block threshold', () => {
+    expect(getNudityVerdict(0.9)).toBe('block');
+    expect(getNudityVerdict(1)).toBe('block');
+  });
+});
+
+describe('scanImage', () => {
+  it('returns null when no classifier is registered', async () => {
+    expect(hasNudityClassifier()).toBe(false);
+    await expect(scanImage('file:///photo.jpg')).resolves.toBeNull();
+  });
+
+  it('maps classifier scores to verdicts', async () => {
+    const { classifier } = createStubClassifier({
+      'file:///safe.jpg': 0.2,
+      'file:///warn.jpg': 0.6,
+      'file:///block.jpg': 0.9,
+    });
+    setNudityClassifier(classifier);
+
+    expect(hasNudityClassifier()).toBe(true);
+    await expect(scanImage('file:///safe.jpg')).resolves.toEqual({ score: 0.2, verdict: 'allow' });
+    await expect(scanImage('file:///warn.jpg')).resolves.toEqual({ score: 0.6, verdict: 'warn' });
+    await expect(scanImage('file:///block.jpg')).resolves.toEqual({ score: 0.9, verdict: 'block' });
+  });
+
+  it('classifies each URI once', async () => {
+    const { classifier, classify } = createStubClassifier({ 'https://noxchat.xyz/a.jpg': 0.7 });
+    setNudityClassifier(classifier);
+
+    await scanImage('https://noxchat.xyz/a.jpg');
+    await scanImage('https://noxchat.xyz/a.jpg');
+
+    expect(classify).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops cached results when the classifier changes', async () => {
+    setNudityClassifier(createStubClassifier({ 'file:///a.jpg': 0.7 }).classifier);
+    await scanImage('file:///a.jpg');
+
+    setNudityClassifier(createStubClassifier({ 'file:///a.jpg': 0.95 }).classifier);
+    await expect(scanImage('file:///a.jpg')).resolves.toEqual({ score: 0.95, verdict: 'block' });
+  });
+
+  it('returns null when the classifier fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    setNudityClassifier(createStubClassifier({}).classifier);
+
+    await expect(scanImage('file:///unknown.jpg')).resolves.toBeNull();
+  });
+});
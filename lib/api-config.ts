@@ -6,6 +6,9 @@
 // Production URL
 export const API_BASE_URL = 'https://noxchat.xyz';
 
+// Public web origin for shareable links; must match the app links in app.json
+export const WEB_BASE_URL = 'https://noxchat.xyz';
+
 // Endpoint paths
 const AUTH_PREFIX = '/api/auth';
 const API_PREFIX = '/api';
@@ -19,8 +22,13 @@ export const API_ENDPOINTS = {
   
   // User
   profile: `${API_PREFIX}/user/profile`,
+  privacySettings: `${API_PREFIX}/user/privacy-settings`,
   updateProfile: `${API_PREFIX}/user/profile`,
   nickname: `${API_PREFIX}/user/nickname`,
+  blocks: `${API_PREFIX}/user/blocks`,
+  notificationSettings: `${API_PREFIX}/user/notification-settings`,
+  pushToken: `${API_PREFIX}/user/push-token`,
+  deleteAccount: `${API_PREFIX}/user/delete-account`,
   
   // Groups
   groups: `${API_PREFIX}/groups`,
@@ -32,10 +40,17 @@ export const API_ENDPOINTS = {
   
   // Messages
   messages: `${API_PREFIX}/messages`,
+  markRead: `${API_PREFIX}/messages/read`,
+  
+  // Moderation
+  reports: `${API_PREFIX}/reports`,
   
   // Pin
   pin: `${API_PREFIX}/pin`,
   
+  // Typing presence
+  typing: `${API_PREFIX}/typing`,
+  
   // SSE
   sse: `${API_PREFIX}/sse`,
 } as const;
@@ -45,3 +60,4 @@ Object.freeze(API_ENDPOINTS);
 
 export const getApiUrl = (endpoint: string): string => `${API_BASE_URL}${endpoint}`;
 
+export const getInviteUrl = (code: string): string => `${WEB_BASE_URL}/groups/invite/${code}`;
@@ -6,6 +6,7 @@
 
 import { createAuthClient } from "better-auth/react";
 import { expoClient } from "@better-auth/expo/client";
+import { twoFactorClient } from "better-auth/client/plugins";
 import * as SecureStore from "expo-secure-store";
 import { API_BASE_URL } from "./api-config";
 
@@ -24,6 +25,8 @@ export const authClient = createAuthClient({
       storagePrefix: "nox",
       storage: SecureStore,
     }),
+    // The login screen handles the second step itself, so no redirect here
+    twoFactorClient(),
   ],
 });
 
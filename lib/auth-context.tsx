@@ -8,6 +8,10 @@ import React, { createContext, useContext, useEffect, useState, useCallback } fr
 import { authClient } from './auth-client';
 import apiClient from './api-client';
 import { API_ENDPOINTS } from './api-config';
+import { messageOutbox } from './message-outbox';
+import { contentPreferences } from './content-preferences';
+import { notificationService } from './notification-service';
+import type { DeviceSession } from './types';
 import { 
   authRateLimiter, 
   sanitizeInput, 
@@ -31,12 +35,38 @@ export interface User {
   twoFactorEnabled?: boolean | null;
 }
 
+export interface SignInResult {
+  success: boolean;
+  error?: string;
+  needsVerification?: boolean;
+  // Password was accepted; a TOTP or backup code is needed to finish signing in
+  twoFactorRequired?: boolean;
+}
+
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  signIn: (email: string, password: string) => Promise<{ success: boolean; error?: string; needsVerification?: boolean }>;
+  signIn: (email: string, password: string) => Promise<SignInResult>;
+  verifyTwoFactor: (code: string, options?: { backupCode?: boolean; trustDevice?: boolean }) => Promise<{ success: boolean; error?: string }>;
+  enableTwoFactor: (password: string) => Promise<{ success: boolean; error?: string; totpURI?: string; backupCodes?: string[] }>;
+  confirmTwoFactor: (code: string) => Promise<{ success: boolean; error?: string }>;
+  disableTwoFactor: (password: string) => Promise<{ success: boolean; error?: string }>;
+  generateBackupCodes: (password: string) => Promise<{ success: boolean; error?: string; backupCodes?: string[] }>;
   signUp: (email: string, password: string, name: string) => Promise<{ success: boolean; error?: string }>;
+  sendVerificationEmail: (email: string) => Promise<{ success: boolean; error?: string }>;
+  verifyEmail: (token: string) => Promise<{ success: boolean; error?: string; signedIn?: boolean }>;
+  requestPasswordReset: (email: string) => Promise<{ success: boolean; error?: string }>;
+  resetPassword: (token: string, newPassword: string) => Promise<{ success: boolean; error?: string }>;
+  changePassword: (currentPassword: string, newPassword: string, revokeOtherSessions: boolean) => Promise<{ success: boolean; error?: string }>;
+  listSessions: () => Promise<{ success: boolean; error?: string; sessions?: DeviceSession[]; currentSessionId?: string }>;
+  revokeSession: (session: DeviceSession) => Promise<{ success: boolean; error?: string }>;
+  revokeOtherSessions: () => Promise<{ success: boolean; error?: string }>;
+  deleteAccount: (
+    password: string,
+    twoFactorCode?: string,
+    options?: { backupCode?: boolean },
+  ) => Promise<{ success: boolean; error?: string }>;
   signOut: () => Promise<void>;
   refreshUser: () => Promise<void>;
   updateUser: (updates: Partial<User>) => void;
@@ -44,6 +74,13 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | null>(null);
 
+// Reset emails link through the server, which redirects here with ?token= or ?error=
+const PASSWORD_RESET_REDIRECT = 'nox://reset-password';
+
+// A verification link can reach the app twice (router and deep link listener); tokens are single-use.
+// Failed attempts are dropped so the same link can be retried.
+const pendingVerifications = new Map<string, Promise<{ success: boolean; error?: string; signedIn?: boolean }>>();
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -71,7 +108,29 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     checkSession();
   }, [checkSession]);
 
-  const signIn = async (email: string, password: string): Promise<{ success: boolean; error?: string; needsVerification?: boolean }> => {
+  /** Loads the full profile once a session exists, falling back to the session user */
+  const loadSignedInUser = useCallback(async (fallback: User) => {
+    const cookies = authClient.getCookie();
+    const profileRes = await fetch(`${apiClient.getBaseUrl()}${API_ENDPOINTS.profile}`, {
+      headers: {
+        'Cookie': cookies || '',
+      },
+      credentials: 'omit',
+    });
+
+    if (profileRes.ok) {
+      const profileData = await profileRes.json();
+      setUser(profileData?.user ?? fallback);
+    } else {
+      setUser(fallback);
+    }
+  }, []);
+
+  const updateUser = useCallback((updates: Partial<User>) => {
+    setUser(prev => prev ? { ...prev, ...updates } : null);
+  }, []);
+
+  const signIn = async (email: string, password: string): Promise<SignInResult> => {
     // Rate limiting check
     if (!authRateLimiter.canAttempt('signIn')) {
       return { success: false, error: 'Too many login attempts. Please wait a minute.' };
@@ -94,29 +153,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         password,
       });
 
-      if (response.data?.user) {
+      // Accounts with 2FA get a challenge instead of a session
+      if (response.data && 'twoFactorRedirect' in response.data && response.data.twoFactorRedirect) {
+        authRateLimiter.reset('signIn');
+        return { success: false, twoFactorRequired: true };
+      }
+
+      if (response.data && 'user' in response.data && response.data.user) {
         // Reset rate limiter on successful login
         authRateLimiter.reset('signIn');
         
         // Fetch full profile after login
-        const cookies = authClient.getCookie();
-        const profileRes = await fetch(`${apiClient.getBaseUrl()}${API_ENDPOINTS.profile}`, {
-          headers: {
-            'Cookie': cookies || '',
-          },
-          credentials: 'omit',
-        });
-        
-        if (profileRes.ok) {
-          const profileData = await profileRes.json();
-          if (profileData?.user) {
-            setUser(profileData.user);
-          } else {
-            setUser(response.data.user as unknown as User);
-          }
-        } else {
-          setUser(response.data.user as unknown as User);
-        }
+        await loadSignedInUser(response.data.user as unknown as User);
         return { success: true };
       }
 
@@ -131,6 +179,209 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const verifyTwoFactor = async (
+    code: string,
+    options: { backupCode?: boolean; trustDevice?: boolean } = {},
+  ): Promise<{ success: boolean; error?: string }> => {
+    if (!authRateLimiter.canAttempt('twoFactor')) {
+      return { success: false, error: 'Too many attempts. Please wait a minute.' };
+    }
+    authRateLimiter.recordAttempt('twoFactor');
+
+    const sanitizedCode = sanitizeInput(code.trim());
+    if (!sanitizedCode) {
+      return { success: false, error: 'Code is required' };
+    }
+
+    try {
+      const response = options.backupCode
+        ? await authClient.twoFactor.verifyBackupCode({ code: sanitizedCode, trustDevice: options.trustDevice })
+        : await authClient.twoFactor.verifyTotp({ code: sanitizedCode, trustDevice: options.trustDevice });
+
+      if (response.data?.user) {
+        authRateLimiter.reset('twoFactor');
+        await loadSignedInUser(response.data.user as unknown as User);
+        return { success: true };
+      }
+      return { success: false, error: response.error?.message || 'Invalid code' };
+    } catch (error) {
+      return { success: false, error: __DEV__ && error instanceof Error ? error.message : 'Verification failed' };
+    }
+  };
+
+  /** Starts enrollment; 2FA is only switched on once confirmTwoFactor accepts a code */
+  const enableTwoFactor = async (password: string): Promise<{ success: boolean; error?: string; totpURI?: string; backupCodes?: string[] }> => {
+    try {
+      const response = await authClient.twoFactor.enable({ password });
+      if (response.data) {
+        return { success: true, totpURI: response.data.totpURI, backupCodes: response.data.backupCodes };
+      }
+      return { success: false, error: response.error?.message || 'Failed to enable two-factor authentication' };
+    } catch (error) {
+      return { success: false, error: 'Failed to enable two-factor authentication' };
+    }
+  };
+
+  const confirmTwoFactor = async (code: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const response = await authClient.twoFactor.verifyTotp({ code: sanitizeInput(code.trim()) });
+      if (response.data) {
+        updateUser({ twoFactorEnabled: true });
+        return { success: true };
+      }
+      return { success: false, error: response.error?.message || 'Invalid code' };
+    } catch (error) {
+      return { success: false, error: 'Failed to verify code' };
+    }
+  };
+
+  const disableTwoFactor = async (password: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const response = await authClient.twoFactor.disable({ password });
+      if (response.data) {
+        updateUser({ twoFactorEnabled: false });
+        return { success: true };
+      }
+      return { success: false, error: response.error?.message || 'Failed to disable two-factor authentication' };
+    } catch (error) {
+      return { success: false, error: 'Failed to disable two-factor authentication' };
+    }
+  };
+
+  const generateBackupCodes = async (password: string): Promise<{ success: boolean; error?: string; backupCodes?: string[] }> => {
+    try {
+      const response = await authClient.twoFactor.generateBackupCodes({ password });
+      if (response.data) {
+        return { success: true, backupCodes: response.data.backupCodes };
+      }
+      return { success: false, error: response.error?.message || 'Failed to generate backup codes' };
+    } catch (error) {
+      return { success: false, error: 'Failed to generate backup codes' };
+    }
+  };
+
+  const sendVerificationEmail = async (email: string): Promise<{ success: boolean; error?: string }> => {
+    if (!authRateLimiter.canAttempt('sendVerification')) {
+      return { success: false, error: 'Too many requests. Please wait a minute.' };
+    }
+    authRateLimiter.recordAttempt('sendVerification');
+
+    const sanitizedEmail = sanitizeInput(email.toLowerCase().trim());
+    if (!isValidEmail(sanitizedEmail)) {
+      return { success: false, error: 'Invalid email format' };
+    }
+
+    try {
+      const response = await authClient.sendVerificationEmail({ email: sanitizedEmail });
+      if (response.data?.status) {
+        return { success: true };
+      }
+      return { success: false, error: response.error?.message || 'Failed to send verification email' };
+    } catch (error) {
+      return { success: false, error: 'Failed to send verification email' };
+    }
+  };
+
+  /** Completes verification from an emailed link; the server signs the user in when configured to */
+  const verifyEmail = useCallback((token: string): Promise<{ success: boolean; error?: string; signedIn?: boolean }> => {
+    const pending = pendingVerifications.get(token);
+    if (pending) return pending;
+
+    const verification = (async () => {
+      try {
+        const response = await authClient.verifyEmail({ query: { token: sanitizeInput(token) } });
+        if (!response.data?.status) {
+          return { success: false, error: response.error?.message || 'This verification link is invalid or has expired' };
+        }
+
+        const session = await authClient.getSession();
+        if (session.data?.user) {
+          await loadSignedInUser(session.data.user as unknown as User);
+          updateUser({ emailVerified: true });
+          return { success: true, signedIn: true };
+        }
+        return { success: true, signedIn: false };
+      } catch (error) {
+        return { success: false, error: 'Failed to verify email' };
+      }
+    })();
+
+    pendingVerifications.set(token, verification);
+    verification.then(result => {
+      if (!result.success) pendingVerifications.delete(token);
+    });
+    return verification;
+  }, [loadSignedInUser, updateUser]);
+
+  const requestPasswordReset = async (email: string): Promise<{ success: boolean; error?: string }> => {
+    if (!authRateLimiter.canAttempt('passwordReset')) {
+      return { success: false, error: 'Too many requests. Please wait a minute.' };
+    }
+    authRateLimiter.recordAttempt('passwordReset');
+
+    const sanitizedEmail = sanitizeInput(email.toLowerCase().trim());
+    if (!isValidEmail(sanitizedEmail)) {
+      return { success: false, error: 'Invalid email format' };
+    }
+
+    try {
+      const response = await authClient.requestPasswordReset({
+        email: sanitizedEmail,
+        redirectTo: PASSWORD_RESET_REDIRECT,
+      });
+      if (response.error) {
+        return { success: false, error: response.error.message || 'Failed to send reset email' };
+      }
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: 'Failed to send reset email' };
+    }
+  };
+
+  const resetPassword = async (token: string, newPassword: string): Promise<{ success: boolean; error?: string }> => {
+    const passwordValidation = validatePassword(newPassword);
+    if (!passwordValidation.valid) {
+      return { success: false, error: passwordValidation.errors[0] };
+    }
+
+    try {
+      const response = await authClient.resetPassword({ token: sanitizeInput(token), newPassword });
+      if (response.data?.status) {
+        return { success: true };
+      }
+      return { success: false, error: response.error?.message || 'This reset link is invalid or has expired' };
+    } catch (error) {
+      return { success: false, error: 'Failed to reset password' };
+    }
+  };
+
+  const changePassword = async (
+    currentPassword: string,
+    newPassword: string,
+    revokeOtherSessions: boolean,
+  ): Promise<{ success: boolean; error?: string }> => {
+    if (!currentPassword) {
+      return { success: false, error: 'Current password is required' };
+    }
+    const passwordValidation = validatePassword(newPassword);
+    if (!passwordValidation.valid) {
+      return { success: false, error: passwordValidation.errors[0] };
+    }
+    if (newPassword === currentPassword) {
+      return { success: false, error: 'New password must be different from the current one' };
+    }
+
+    try {
+      const response = await authClient.changePassword({ currentPassword, newPassword, revokeOtherSessions });
+      if (response.data) {
+        return { success: true };
+      }
+      return { success: false, error: response.error?.message || 'Failed to change password' };
+    } catch (error) {
+      return { success: false, error: 'Failed to change password' };
+    }
+  };
+
   const signUp = async (email: string, password: string, name: string): Promise<{ success: boolean; error?: string }> => {
     // Rate limiting check
     if (!authRateLimiter.canAttempt('signUp')) {
@@ -173,20 +424,133 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const listSessions = useCallback(async (): Promise<{
+    success: boolean;
+    error?: string;
+    sessions?: DeviceSession[];
+    currentSessionId?: string;
+  }> => {
+    try {
+      const [sessionsResponse, currentResponse] = await Promise.all([
+        authClient.listSessions(),
+        authClient.getSession(),
+      ]);
+      if (!sessionsResponse.data) {
+        return { success: false, error: sessionsResponse.error?.message || 'Failed to load sessions' };
+      }
+      return {
+        success: true,
+        sessions: sessionsResponse.data,
+        currentSessionId: currentResponse.data?.session.id,
+      };
+    } catch (error) {
+      return { success: false, error: 'Failed to load sessions' };
+    }
+  }, []);
+
+  const revokeSession = async (session: DeviceSession): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const response = await authClient.revokeSession({ token: session.token });
+      if (response.error) {
+        return { success: false, error: response.error.message || 'Failed to sign out session' };
+      }
+      await notificationService.dropSessionPushTokens([session.id]);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: 'Failed to sign out session' };
+    }
+  };
+
+  const revokeOtherSessions = async (): Promise<{ success: boolean; error?: string }> => {
+    const listed = await listSessions();
+    if (!listed.success || !listed.sessions) {
+      return { success: false, error: listed.error };
+    }
+
+    try {
+      const response = await authClient.revokeOtherSessions();
+      if (response.error) {
+        return { success: false, error: response.error.message || 'Failed to sign out other sessions' };
+      }
+      await notificationService.dropSessionPushTokens(
+        listed.sessions.filter(s => s.id !== listed.currentSessionId).map(s => s.id)
+      );
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: 'Failed to sign out other sessions' };
+    }
+  };
+
+  const clearLocalSession = async () => {
+    await clearSensitiveData();
+    await messageOutbox.clear();
+    await contentPreferences.clear();
+    setUser(null);
+  };
+
+  const deleteAccount = async (
+    password: string,
+    twoFactorCode?: string,
+    options: { backupCode?: boolean } = {},
+  ): Promise<{ success: boolean; error?: string }> => {
+    if (!authRateLimiter.canAttempt('deleteAccount')) {
+      return { success: false, error: 'Too many attempts. Please wait a minute.' };
+    }
+    authRateLimiter.recordAttempt('deleteAccount');
+
+    if (!password) {
+      return { success: false, error: 'Password is required' };
+    }
+
+    const sanitizedCode = sanitizeInput((twoFactorCode || '').trim());
+    if (user?.twoFactorEnabled && !sanitizedCode) {
+      return { success: false, error: options.backupCode ? 'Backup code is required' : 'Authentication code is required' };
+    }
+
+    try {
+      // The push token has to be removed while the session is still valid
+      await notificationService.unregister();
+
+      // better-auth's deleteUser only checks the password, so accounts with 2FA go through our
+      // endpoint, which checks the password and the code against this session in one request
+      let failure: string | null = null;
+      if (user?.twoFactorEnabled) {
+        const response = await apiClient.post(API_ENDPOINTS.deleteAccount, {
+          password,
+          ...(options.backupCode ? { backupCode: sanitizedCode } : { code: sanitizedCode }),
+        });
+        if (response.error) failure = response.error;
+      } else {
+        const response = await authClient.deleteUser({ password });
+        if (!response.data?.success) failure = response.error?.message || 'Failed to delete account';
+      }
+
+      if (failure !== null) {
+        // Nothing about the session changed, so this device stays signed in
+        await notificationService.init();
+        return { success: false, error: failure };
+      }
+
+      authRateLimiter.reset('deleteAccount');
+      await clearLocalSession();
+      return { success: true };
+    } catch (error) {
+      await notificationService.init();
+      return { success: false, error: 'Failed to delete account' };
+    }
+  };
+
   const signOut = async () => {
     try {
       await authClient.signOut();
-      // Clear all sensitive data on logout
-      await clearSensitiveData();
-      setUser(null);
     } catch (error) {
       if (__DEV__) {
         console.error('Sign out failed:', error);
       }
       // Still clear data even if signout request fails
-      await clearSensitiveData();
-      setUser(null);
     }
+    // Clear all sensitive data on logout
+    await clearLocalSession();
   };
 
   const refreshUser = async () => {
@@ -200,10 +564,6 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const updateUser = (updates: Partial<User>) => {
-    setUser(prev => prev ? { ...prev, ...updates } : null);
-  };
-
   return (
     <AuthContext.Provider
       value={{
@@ -211,7 +571,21 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         isLoading,
         isAuthenticated: !!user,
         signIn,
+        verifyTwoFactor,
+        enableTwoFactor,
+        confirmTwoFactor,
+        disableTwoFactor,
+        generateBackupCodes,
         signUp,
+        sendVerificationEmail,
+        verifyEmail,
+        requestPasswordReset,
+        resetPassword,
+        changePassword,
+        listSessions,
+        revokeSession,
+        revokeOtherSessions,
+        deleteAccount,
         signOut,
         refreshUser,
         updateUser,
@@ -3,12 +3,116 @@
  * Manages chat state (groups, DMs, active chat)
  */
 
-import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
+import React, { createContext, useContext, useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { AppState } from 'react-native';
+import * as Network from 'expo-network';
 import apiClient from './api-client';
 import { API_ENDPOINTS } from './api-config';
-import { Group, DM, ActiveChat, Message } from './types';
+import { realtimeClient } from './realtime-client';
+import { messageOutbox, OutboxEntry, generateClientId, toOptimisticMessage, toReplySummary } from './message-outbox';
+import { Group, DM, ActiveChat, BlockedUser, Message, MessageReaction, Attachment, DeliveryStatus, RealtimeEvent, RealtimeStatus, TypingUser } from './types';
 import { useAuth } from './auth-context';
 
+// Polling is only used as a fallback while the realtime stream is down
+const FALLBACK_POLL_INTERVAL = 5000;
+const MESSAGE_PAGE_SIZE = 50;
+// Upper bound on pages fetched when jumping to a quoted message
+const MAX_JUMP_PAGES = 10;
+// Minimum gap between repeated "typing started" signals
+const TYPING_THROTTLE = 3000;
+// Send "typing stopped" after this long without keystrokes
+const TYPING_IDLE_TIMEOUT = 4000;
+// Drop someone from the typing list if their "stopped" signal never arrives
+const TYPING_EXPIRY = 6000;
+
+interface MessagePage {
+  messages: Message[];
+  hasMore?: boolean;
+}
+
+/** Builds the query string identifying a chat for the messages endpoint */
+const getChatQuery = (chat: NonNullable<ActiveChat>) =>
+  chat.type === 'group' ? `groupId=${chat.id}` : `dmId=${chat.id}`;
+
+const isUnsent = (message: Message) =>
+  message.sendState === 'pending' || message.sendState === 'failed';
+
+/** Adds server messages, replacing their optimistic copies and keeping unsent ones last */
+const mergeIncoming = (prev: Message[], incoming: Message[]): Message[] => {
+  const known = new Set(prev.map(m => m.id));
+  const fresh = incoming.filter(m => !known.has(m.id));
+  if (fresh.length === 0) return prev;
+
+  const confirmed = new Set(fresh.map(m => m.clientId).filter(Boolean));
+  const kept = prev.filter(m => !(m.clientId && m.id === m.clientId && confirmed.has(m.clientId)));
+  return [...kept.filter(m => !isUnsent(m)), ...fresh, ...kept.filter(isUnsent)];
+};
+
+/** Replaces a message's content with a deletion tombstone */
+const toTombstone = (message: Message, deletedAt: string): Message => ({
+  ...message,
+  content: '',
+  attachments: null,
+  deletedAt,
+});
+
+/**
+ * Adds or removes one user's reaction from a message's aggregated reactions.
+ * Our own reactions are applied optimistically, so an echo that matches the
+ * current state is ignored instead of being counted twice.
+ */
+const withReaction = (
+  reactions: MessageReaction[] | undefined,
+  emoji: string,
+  added: boolean,
+  byMe: boolean,
+): MessageReaction[] => {
+  const list = reactions ?? [];
+  const existing = list.find(r => r.emoji === emoji);
+  if (byMe && (existing?.reactedByMe ?? false) === added) return list;
+
+  if (!existing) {
+    return added ? [...list, { emoji, count: 1, reactedByMe: byMe }] : list;
+  }
+
+  const count = existing.count + (added ? 1 : -1);
+  if (count <= 0) return list.filter(r => r.emoji !== emoji);
+  return list.map(r =>
+    r.emoji === emoji ? { ...r, count, reactedByMe: byMe ? added : r.reactedByMe } : r
+  );
+};
+
+const DELIVERY_RANK: Record<DeliveryStatus, number> = { sent: 0, delivered: 1, read: 2 };
+
+/** Upgrades the delivery status of our messages up to and including the acknowledged one */
+const withReceipt = (
+  messages: Message[],
+  messageId: string,
+  status: DeliveryStatus,
+  ownId: string | undefined,
+): Message[] => {
+  const index = messages.findIndex(m => m.id === messageId);
+  if (index === -1) return messages;
+
+  return messages.map((m, i) =>
+    i <= index &&
+    m.sender.id === ownId &&
+    !isUnsent(m) &&
+    DELIVERY_RANK[m.deliveryStatus ?? 'sent'] < DELIVERY_RANK[status]
+      ? { ...m, deliveryStatus: status }
+      : m
+  );
+};
+
+/** Appends the chat's outbox entries to a freshly loaded page */
+const withUnsent = (loaded: Message[], chat: NonNullable<ActiveChat>): Message[] => {
+  const unsent = messageOutbox.getEntriesForChat(chat).map(toOptimisticMessage);
+  return [...loaded, ...unsent];
+};
+
+/** retryAfter is set when the group's slow mode rejected the message */
+type SendResult = { success: boolean; error?: string; queued?: boolean; retryAfter?: number };
+
 interface ChatContextType {
   groups: Group[];
   dms: DM[];
@@ -16,29 +120,105 @@ interface ChatContextType {
   isLoading: boolean;
   messages: Message[];
   messagesLoading: boolean;
+  hasMore: boolean;
+  olderMessagesLoading: boolean;
+  realtimeStatus: RealtimeStatus;
+  typingUsers: TypingUser[];
+  readReceiptsEnabled: boolean;
+  setReadReceiptsEnabled: (enabled: boolean) => void;
   setActiveChat: (chat: ActiveChat) => void;
   fetchGroups: () => Promise<void>;
   fetchDMs: () => Promise<void>;
   fetchMessages: () => Promise<void>;
-  sendMessage: (content: string) => Promise<{ success: boolean; error?: string }>;
+  loadOlderMessages: () => Promise<void>;
+  loadMessagesUntil: (messageId: string) => Promise<boolean>;
+  sendMessage: (content: string, attachments?: Attachment[], replyTo?: Message | null) => Promise<SendResult>;
+  retryMessage: (clientId: string) => Promise<SendResult>;
+  editMessage: (messageId: string, content: string) => Promise<{ success: boolean; error?: string }>;
+  deleteMessage: (messageId: string) => Promise<{ success: boolean; error?: string }>;
+  toggleReaction: (messageId: string, emoji: string) => Promise<{ success: boolean; error?: string }>;
+  discardMessage: (clientId: string) => Promise<void>;
+  notifyTyping: (isTyping: boolean) => void;
+  markChatRead: () => Promise<void>;
   refreshAll: () => Promise<void>;
   joinGroup: (inviteCode: string) => Promise<{ success: boolean; error?: string }>;
   createGroup: (name: string, description?: string) => Promise<{ success: boolean; error?: string }>;
   startDM: (username: string) => Promise<{ success: boolean; error?: string }>;
+  leaveGroup: (groupId: string, newAdminId?: string) => Promise<{ success: boolean; error?: string }>;
+  deleteGroup: (groupId: string) => Promise<{ success: boolean; error?: string }>;
+  deleteDM: (dmId: string) => Promise<{ success: boolean; error?: string }>;
   togglePin: (type: 'group' | 'dm', id: string) => Promise<void>;
+  updateGroup: (groupId: string, updates: Partial<Group>) => void;
+  blockedUsers: BlockedUser[];
+  isUserBlocked: (userId: string | null | undefined) => boolean;
+  blockUser: (user: BlockedUser) => Promise<{ success: boolean; error?: string }>;
+  unblockUser: (userId: string) => Promise<{ success: boolean; error?: string }>;
 }
 
 const ChatContext = createContext<ChatContextType | null>(null);
 
 export function ChatProvider({ children }: { children: React.ReactNode }) {
-  const { isAuthenticated } = useAuth();
+  const { user, isAuthenticated } = useAuth();
   const [groups, setGroups] = useState<Group[]>([]);
   const [dms, setDMs] = useState<DM[]>([]);
   const [activeChat, setActiveChat] = useState<ActiveChat>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [messages, setMessages] = useState<Message[]>([]);
   const [messagesLoading, setMessagesLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [olderMessagesLoading, setOlderMessagesLoading] = useState(false);
+  const [realtimeStatus, setRealtimeStatus] = useState<RealtimeStatus>(realtimeClient.getStatus());
   const pollingInterval = useRef<ReturnType<typeof setInterval> | null>(null);
+  const [appState, setAppState] = useState(AppState.currentState);
+  const activeChatRef = useRef<ActiveChat>(null);
+  const dmsRef = useRef<DM[]>([]);
+  const messagesRef = useRef<Message[]>([]);
+  const olderMessagesLoadingRef = useRef(false);
+  const inFlightRef = useRef<Set<string>>(new Set());
+  const hasConnectedRef = useRef(false);
+  const userIdRef = useRef<string | undefined>(user?.id);
+  const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const typingExpiryRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+  const typingChatRef = useRef<ActiveChat>(null);
+  const typingSentAtRef = useRef(0);
+  const typingIdleRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [readReceiptsEnabled, setReadReceiptsEnabled] = useState(true);
+  const readReceiptsRef = useRef(true);
+  const lastReadRef = useRef<string | null>(null);
+  const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([]);
+
+  const blockedUserIds = useMemo(() => new Set(blockedUsers.map(u => u.id)), [blockedUsers]);
+
+  const isUserBlocked = useCallback(
+    (userId: string | null | undefined) => !!userId && blockedUserIds.has(userId),
+    [blockedUserIds]
+  );
+
+  // DMs with blocked users stay on the server but are hidden from the list
+  const visibleDMs = useMemo(
+    () => dms.filter(dm => !isUserBlocked(dm.otherUser?.id)),
+    [dms, isUserBlocked]
+  );
+
+  useEffect(() => {
+    activeChatRef.current = activeChat;
+  }, [activeChat]);
+
+  useEffect(() => {
+    dmsRef.current = dms;
+  }, [dms]);
+
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  useEffect(() => {
+    userIdRef.current = user?.id;
+  }, [user?.id]);
+
+  useEffect(() => {
+    readReceiptsRef.current = readReceiptsEnabled;
+  }, [readReceiptsEnabled]);
 
   const fetchGroups = useCallback(async () => {
     try {
@@ -70,18 +250,20 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
 
+  /** Loads the latest page of messages, replacing anything already loaded */
   const fetchMessages = useCallback(async () => {
     if (!activeChat) return;
 
     setMessagesLoading(true);
     try {
-      const param = activeChat.type === 'group'
-        ? `groupId=${activeChat.id}`
-        : `dmId=${activeChat.id}`;
-      
-      const res = await apiClient.get<{ messages: Message[] }>(`${API_ENDPOINTS.messages}?${param}`);
-      if (res.data?.messages) {
-        setMessages(res.data.messages);
+      const res = await apiClient.get<MessagePage>(
+        `${API_ENDPOINTS.messages}?${getChatQuery(activeChat)}&limit=${MESSAGE_PAGE_SIZE}`
+      );
+      await messageOutbox.load();
+      // Ignore responses for a chat the user already left
+      if (res.data?.messages && activeChatRef.current?.id === activeChat.id) {
+        setMessages(withUnsent(res.data.messages, activeChat));
+        setHasMore(res.data.hasMore ?? res.data.messages.length >= MESSAGE_PAGE_SIZE);
       }
     } catch (error) {
       console.error('Failed to fetch messages:', error);
@@ -90,28 +272,329 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
     }
   }, [activeChat]);
 
-  const sendMessage = useCallback(async (content: string): Promise<{ success: boolean; error?: string }> => {
-    if (!activeChat || !content.trim()) {
+  // The chat-change effect below only re-runs for a different chat, not a refreshed chat object
+  const fetchMessagesRef = useRef(fetchMessages);
+  useEffect(() => {
+    fetchMessagesRef.current = fetchMessages;
+  }, [fetchMessages]);
+
+  /** Fetches messages newer than the newest loaded one and appends them */
+  const fetchNewMessages = useCallback(async () => {
+    const chat = activeChatRef.current;
+    const newest = messagesRef.current.filter(m => !isUnsent(m)).pop();
+    if (!chat) return;
+    if (!newest) {
+      await fetchMessages();
+      return;
+    }
+
+    try {
+      const res = await apiClient.get<MessagePage>(
+        `${API_ENDPOINTS.messages}?${getChatQuery(chat)}&after=${newest.id}&limit=${MESSAGE_PAGE_SIZE}`
+      );
+      if (!res.data?.messages || activeChatRef.current?.id !== chat.id) return;
+
+      if (res.data.hasMore) {
+        // Too much was missed to stitch together, start over from the latest page
+        await fetchMessages();
+        return;
+      }
+
+      const incoming = res.data.messages;
+      if (incoming.length > 0) {
+        setMessages(prev => mergeIncoming(prev, incoming));
+      }
+    } catch (error) {
+      console.error('Failed to fetch new messages:', error);
+    }
+  }, [fetchMessages]);
+
+  // Lets the reconnect catch-up use the current chat's fetcher without re-running on chat changes
+  const fetchNewMessagesRef = useRef(fetchNewMessages);
+  useEffect(() => {
+    fetchNewMessagesRef.current = fetchNewMessages;
+  }, [fetchNewMessages]);
+
+  /**
+   * Loads pages before the oldest loaded message. With a target id it keeps paging
+   * (up to MAX_JUMP_PAGES) until that message is loaded and resolves whether it was found.
+   */
+  const loadOlderPages = useCallback(async (targetId?: string): Promise<boolean> => {
+    const chat = activeChatRef.current;
+    let cursor: string | undefined = messagesRef.current.find(m => !isUnsent(m))?.id;
+    if (!chat || !cursor || !hasMore || olderMessagesLoadingRef.current) return false;
+
+    olderMessagesLoadingRef.current = true;
+    setOlderMessagesLoading(true);
+    let loaded: Message[] = [];
+    let more = true;
+    let found = false;
+    try {
+      const maxPages = targetId ? MAX_JUMP_PAGES : 1;
+      for (let page = 0; page < maxPages && more && cursor && !found; page++) {
+        const res: { data?: MessagePage } = await apiClient.get<MessagePage>(
+          `${API_ENDPOINTS.messages}?${getChatQuery(chat)}&before=${cursor}&limit=${MESSAGE_PAGE_SIZE}`
+        );
+        if (!res.data?.messages) break;
+
+        const older: Message[] = res.data.messages;
+        loaded = [...older, ...loaded];
+        more = res.data.hasMore ?? older.length >= MESSAGE_PAGE_SIZE;
+        cursor = older[0]?.id;
+        found = !!targetId && older.some(m => m.id === targetId);
+      }
+
+      if (loaded.length > 0 && activeChatRef.current?.id === chat.id) {
+        setMessages(prev => {
+          const known = new Set(prev.map(m => m.id));
+          return [...loaded.filter(m => !known.has(m.id)), ...prev];
+        });
+        setHasMore(more);
+      }
+    } catch (error) {
+      console.error('Failed to load older messages:', error);
+    } finally {
+      olderMessagesLoadingRef.current = false;
+      setOlderMessagesLoading(false);
+    }
+    return found;
+  }, [hasMore]);
+
+  const loadOlderMessages = useCallback(async () => {
+    await loadOlderPages();
+  }, [loadOlderPages]);
+
+  /** Makes sure a message is loaded, paging back through history if needed */
+  const loadMessagesUntil = useCallback(async (messageId: string): Promise<boolean> => {
+    if (messagesRef.current.some(m => m.id === messageId)) return true;
+    return loadOlderPages(messageId);
+  }, [loadOlderPages]);
+
+  /** Posts an outbox entry and reconciles the optimistic message with the result */
+  const deliver = useCallback(async (entry: OutboxEntry): Promise<SendResult> => {
+    if (inFlightRef.current.has(entry.clientId)) {
+      return { success: false, queued: true };
+    }
+    inFlightRef.current.add(entry.clientId);
+
+    const markState = (sendState: 'pending' | 'failed') =>
+      setMessages(prev => prev.map(m => m.id === entry.clientId ? { ...m, sendState } : m));
+
+    markState('pending');
+    await messageOutbox.update(entry.clientId, { sendState: 'pending' });
+
+    try {
+      const payload = {
+        content: entry.content,
+        clientId: entry.clientId,
+        ...(entry.attachments.length > 0 && { attachments: entry.attachments }),
+        ...(entry.replyTo && { replyToId: entry.replyTo.id }),
+      };
+      const body = entry.groupId
+        ? { groupId: entry.groupId, ...payload }
+        : { dmId: entry.dmId, ...payload };
+
+      const res = await apiClient.post<{ message?: Message; code?: string; retryAfter?: number }>(API_ENDPOINTS.messages, body);
+
+      if (res.data?.message) {
+        const sent = res.data.message;
+        await messageOutbox.remove(entry.clientId);
+        // The realtime stream may already have delivered this message
+        setMessages(prev => prev.some(m => m.id === sent.id)
+          ? prev.filter(m => m.id !== entry.clientId)
+          : prev.map(m => m.id === entry.clientId ? sent : m));
+        return { success: true };
+      }
+
+      // Slow mode: retrying before the cooldown ends would just be rejected again
+      if (res.data?.code === 'SLOW_MODE') {
+        await messageOutbox.update(entry.clientId, { sendState: 'failed', autoRetry: false });
+        markState('failed');
+        return {
+          success: false,
+          error: res.error || 'Slow mode is on',
+          retryAfter: res.data.retryAfter ?? 0,
+        };
+      }
+
+      // Offline, rate limited or a server hiccup: keep it queued for the next retry
+      const retryable = res.status === 0 || res.status === 429 || res.status >= 500;
+      await messageOutbox.update(entry.clientId, { sendState: 'failed', autoRetry: retryable });
+      markState('failed');
+      return { success: false, error: res.error || 'Failed to send message', queued: retryable };
+    } catch (error) {
+      await messageOutbox.update(entry.clientId, { sendState: 'failed' });
+      markState('failed');
+      return { success: false, error: 'Failed to send message', queued: true };
+    } finally {
+      inFlightRef.current.delete(entry.clientId);
+    }
+  }, []);
+
+  const sendMessage = useCallback(async (
+    content: string,
+    attachments: Attachment[] = [],
+    replyTo?: Message | null,
+  ): Promise<SendResult> => {
+    // Attachment-only messages are allowed
+    if (!activeChat || !user || (!content.trim() && attachments.length === 0)) {
       return { success: false, error: 'No active chat or empty message' };
     }
+    if (activeChat.type === 'dm' && isUserBlocked(activeChat.data.otherUser?.id)) {
+      return { success: false, error: 'Unblock this user to send them messages' };
+    }
+
+    const entry: OutboxEntry = {
+      clientId: generateClientId(),
+      ...(activeChat.type === 'group' ? { groupId: activeChat.id } : { dmId: activeChat.id }),
+      content,
+      attachments,
+      ...(replyTo && { replyTo: toReplySummary(replyTo) }),
+      createdAt: new Date().toISOString(),
+      sender: {
+        id: user.id,
+        name: user.name,
+        username: user.username ?? null,
+        displayUsername: user.displayUsername ?? null,
+        image: user.image ?? null,
+        nameColor: user.nameColor ?? null,
+      },
+      sendState: 'pending',
+      autoRetry: true,
+    };
+
+    setMessages(prev => [...prev, toOptimisticMessage(entry)]);
+    await messageOutbox.add(entry);
+
+    return deliver(entry);
+  }, [activeChat, user, deliver, isUserBlocked]);
+
+  const retryMessage = useCallback(async (clientId: string): Promise<SendResult> => {
+    const entry = messageOutbox.get(clientId);
+    if (!entry) {
+      return { success: false, error: 'Message not found' };
+    }
+    return deliver(entry);
+  }, [deliver]);
+
+  const discardMessage = useCallback(async (clientId: string) => {
+    await messageOutbox.remove(clientId);
+    setMessages(prev => prev.filter(m => m.id !== clientId));
+  }, []);
+
+  /** Applies an edited or deleted message to the open chat and the chat list previews */
+  const applyMessageUpdate = useCallback((
+    messageId: string,
+    update: (message: Message) => Message,
+    chat: { groupId?: string; dmId?: string },
+  ) => {
+    setMessages(prev => prev.map(m => m.id === messageId ? update(m) : m));
+    if (chat.groupId) {
+      setGroups(prev => prev.map(g =>
+        g.id === chat.groupId && g.lastMessage?.id === messageId
+          ? { ...g, lastMessage: update(g.lastMessage) }
+          : g
+      ));
+    } else if (chat.dmId) {
+      setDMs(prev => prev.map(d =>
+        d.id === chat.dmId && d.lastMessage?.id === messageId
+          ? { ...d, lastMessage: update(d.lastMessage) }
+          : d
+      ));
+    }
+  }, []);
+
+  const editMessage = useCallback(async (messageId: string, content: string): Promise<{ success: boolean; error?: string }> => {
+    if (!activeChat || !content.trim()) {
+      return { success: false, error: 'Message cannot be empty' };
+    }
 
     try {
-      const body = activeChat.type === 'group'
-        ? { groupId: activeChat.id, content }
-        : { dmId: activeChat.id, content };
-      
-      const res = await apiClient.post<{ message: Message }>(API_ENDPOINTS.messages, body);
-      
+      const res = await apiClient.put<{ message: Message }>(`${API_ENDPOINTS.messages}/${messageId}`, { content });
+
       if (res.data?.message) {
-        setMessages(prev => [...prev, res.data!.message]);
+        const edited = res.data.message;
+        const chat = activeChat.type === 'group' ? { groupId: activeChat.id } : { dmId: activeChat.id };
+        applyMessageUpdate(messageId, m => ({ ...m, ...edited }), chat);
         return { success: true };
       }
-      
-      return { success: false, error: res.error || 'Failed to send message' };
+
+      return { success: false, error: res.error || 'Failed to edit message' };
     } catch (error) {
-      return { success: false, error: 'Failed to send message' };
+      return { success: false, error: 'Failed to edit message' };
     }
-  }, [activeChat]);
+  }, [activeChat, applyMessageUpdate]);
+
+  const deleteMessage = useCallback(async (messageId: string): Promise<{ success: boolean; error?: string }> => {
+    if (!activeChat) {
+      return { success: false, error: 'No active chat' };
+    }
+
+    try {
+      const res = await apiClient.delete<{ deletedAt?: string }>(`${API_ENDPOINTS.messages}/${messageId}`);
+
+      if (res.status === 200 || res.status === 204) {
+        const deletedAt = res.data?.deletedAt || new Date().toISOString();
+        const chat = activeChat.type === 'group' ? { groupId: activeChat.id } : { dmId: activeChat.id };
+        applyMessageUpdate(messageId, m => toTombstone(m, deletedAt), chat);
+        return { success: true };
+      }
+
+      return { success: false, error: res.error || 'Failed to delete message' };
+    } catch (error) {
+      return { success: false, error: 'Failed to delete message' };
+    }
+  }, [activeChat, applyMessageUpdate]);
+
+  /** Adds or removes our reaction, updating the message before the server confirms */
+  const toggleReaction = useCallback(async (messageId: string, emoji: string): Promise<{ success: boolean; error?: string }> => {
+    const message = messagesRef.current.find(m => m.id === messageId);
+    if (!activeChat || !message) {
+      return { success: false, error: 'Message not found' };
+    }
+
+    const added = !message.reactions?.some(r => r.emoji === emoji && r.reactedByMe);
+    const chat = activeChat.type === 'group' ? { groupId: activeChat.id } : { dmId: activeChat.id };
+    applyMessageUpdate(messageId, m => ({ ...m, reactions: withReaction(m.reactions, emoji, added, true) }), chat);
+
+    const revert = () => applyMessageUpdate(
+      messageId,
+      m => ({ ...m, reactions: withReaction(m.reactions, emoji, !added, true) }),
+      chat,
+    );
+
+    try {
+      const endpoint = `${API_ENDPOINTS.messages}/${messageId}/reactions`;
+      const res = added
+        ? await apiClient.post<{ reactions?: MessageReaction[] }>(endpoint, { emoji })
+        : await apiClient.delete<{ reactions?: MessageReaction[] }>(`${endpoint}?emoji=${encodeURIComponent(emoji)}`);
+
+      if (res.error) {
+        revert();
+        return { success: false, error: res.error };
+      }
+
+      // Reconcile with the server's counts when it sends them back
+      const reactions = res.data?.reactions;
+      if (reactions) {
+        applyMessageUpdate(messageId, m => ({ ...m, reactions }), chat);
+      }
+      return { success: true };
+    } catch (error) {
+      revert();
+      return { success: false, error: 'Failed to update reaction' };
+    }
+  }, [activeChat, applyMessageUpdate]);
+
+  /** Retries every queued message that wasn't rejected by the server */
+  const flushOutbox = useCallback(async () => {
+    await messageOutbox.load();
+    for (const entry of messageOutbox.getEntries()) {
+      if (entry.autoRetry) {
+        await deliver(entry);
+      }
+    }
+  }, [deliver]);
 
   const refreshAll = useCallback(async () => {
     await Promise.all([fetchGroups(), fetchDMs()]);
@@ -148,10 +631,19 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
   }, [fetchGroups]);
 
   const startDM = useCallback(async (username: string): Promise<{ success: boolean; error?: string }> => {
+    const blockedError = { success: false, error: 'You have blocked this user. Unblock them to send messages.' };
+    const normalized = username.trim().replace(/^@/, '').toLowerCase();
+    if (blockedUsers.some(u => u.username?.toLowerCase() === normalized)) {
+      return blockedError;
+    }
+
     try {
       const res = await apiClient.post<{ dm: DM; error?: string }>(API_ENDPOINTS.dms, { username });
       
       if (res.status === 200 && res.data?.dm) {
+        if (isUserBlocked(res.data.dm.otherUser?.id)) {
+          return blockedError;
+        }
         await fetchDMs();
         setActiveChat({ type: 'dm', id: res.data.dm.id, data: res.data.dm });
         return { success: true };
@@ -161,7 +653,123 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
     } catch (error) {
       return { success: false, error: 'Failed to start conversation' };
     }
-  }, [fetchDMs]);
+  }, [fetchDMs, blockedUsers, isUserBlocked]);
+
+  const fetchBlockedUsers = useCallback(async () => {
+    try {
+      const res = await apiClient.get<{ blocks: BlockedUser[] }>(API_ENDPOINTS.blocks);
+      if (res.data?.blocks) {
+        setBlockedUsers(res.data.blocks);
+      }
+    } catch (error) {
+      console.error('Failed to fetch blocked users:', error);
+    }
+  }, []);
+
+  const blockUser = useCallback(async (blocked: BlockedUser): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const res = await apiClient.post(API_ENDPOINTS.blocks, { userId: blocked.id });
+      if (res.status === 200 || res.status === 201) {
+        setBlockedUsers(prev => prev.some(u => u.id === blocked.id) ? prev : [...prev, blocked]);
+        return { success: true };
+      }
+      return { success: false, error: res.error || 'Failed to block user' };
+    } catch (error) {
+      return { success: false, error: 'Failed to block user' };
+    }
+  }, []);
+
+  const unblockUser = useCallback(async (userId: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const res = await apiClient.delete(`${API_ENDPOINTS.blocks}/${userId}`);
+      if (res.status === 200 || res.status === 204) {
+        setBlockedUsers(prev => prev.filter(u => u.id !== userId));
+        return { success: true };
+      }
+      return { success: false, error: res.error || 'Failed to unblock user' };
+    } catch (error) {
+      return { success: false, error: 'Failed to unblock user' };
+    }
+  }, []);
+
+  /** Applies local changes to a group in the list and the open chat */
+  const updateGroup = useCallback((groupId: string, updates: Partial<Group>) => {
+    setGroups(prev => prev.map(g => g.id === groupId ? { ...g, ...updates } : g));
+    setActiveChat(prev =>
+      prev?.type === 'group' && prev.id === groupId
+        ? { ...prev, data: { ...prev.data, ...updates } }
+        : prev
+    );
+  }, []);
+
+  /** Drops a chat we no longer belong to from local state */
+  const removeChat = useCallback(async (type: 'group' | 'dm', id: string) => {
+    if (type === 'group') {
+      setGroups(prev => prev.filter(g => g.id !== id));
+    } else {
+      setDMs(prev => prev.filter(d => d.id !== id));
+    }
+
+    // Queued messages can no longer be delivered
+    for (const entry of messageOutbox.getEntriesForChat({ type, id })) {
+      await messageOutbox.remove(entry.clientId);
+    }
+
+    const current = activeChatRef.current;
+    if (current?.type === type && current.id === id) {
+      setActiveChat(null);
+      setMessages([]);
+    }
+  }, []);
+
+  /**
+   * Leaves a group. The last admin must pass newAdminId to hand the group over,
+   * otherwise the server rejects the request.
+   */
+  const leaveGroup = useCallback(async (groupId: string, newAdminId?: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const res = await apiClient.post(`${API_ENDPOINTS.groups}/${groupId}/leave`, newAdminId ? { newAdminId } : {});
+
+      if (res.status === 200 || res.status === 204) {
+        await removeChat('group', groupId);
+        return { success: true };
+      }
+
+      return { success: false, error: res.error || 'Failed to leave group' };
+    } catch (error) {
+      return { success: false, error: 'Failed to leave group' };
+    }
+  }, [removeChat]);
+
+  const deleteGroup = useCallback(async (groupId: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const res = await apiClient.delete(`${API_ENDPOINTS.groups}/${groupId}`);
+
+      if (res.status === 200 || res.status === 204) {
+        await removeChat('group', groupId);
+        return { success: true };
+      }
+
+      return { success: false, error: res.error || 'Failed to delete group' };
+    } catch (error) {
+      return { success: false, error: 'Failed to delete group' };
+    }
+  }, [removeChat]);
+
+  const deleteDM = useCallback(async (dmId: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const res = await apiClient.delete(`${API_ENDPOINTS.dms}/${dmId}`);
+
+      if (res.status === 200 || res.status === 204) {
+        await removeChat('dm', dmId);
+        return { success: true };
+      }
+
+      return { success: false, error: res.error || 'Failed to delete chat' };
+    } catch (error) {
+      return { success: false, error: 'Failed to delete chat' };
+    }
+  }, [removeChat]);
 
   const togglePin = useCallback(async (type: 'group' | 'dm', id: string) => {
     try {
@@ -206,48 +814,362 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
     }
   }, [isAuthenticated, refreshAll]);
 
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchBlockedUsers();
+    } else {
+      setBlockedUsers([]);
+    }
+  }, [isAuthenticated, fetchBlockedUsers]);
+
+  // Read receipts preference from privacy settings
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    apiClient.get<{ readReceipts?: boolean }>(API_ENDPOINTS.privacySettings)
+      .then(res => {
+        if (res.data) {
+          setReadReceiptsEnabled(res.data.readReceipts ?? true);
+        }
+      })
+      .catch(() => {});
+  }, [isAuthenticated]);
+
+  /** Tells the chat we're typing, throttled, and sends "stopped" once input goes idle */
+  const notifyTyping = useCallback((isTyping: boolean) => {
+    const send = (chat: NonNullable<ActiveChat>, typing: boolean) => {
+      const target = chat.type === 'group' ? { groupId: chat.id } : { dmId: chat.id };
+      apiClient.post(API_ENDPOINTS.typing, { ...target, isTyping: typing }).catch(() => {});
+    };
+
+    if (typingIdleRef.current) {
+      clearTimeout(typingIdleRef.current);
+      typingIdleRef.current = null;
+    }
+
+    if (!isTyping) {
+      // Only send "stopped" if we announced typing in the first place
+      if (typingChatRef.current) {
+        send(typingChatRef.current, false);
+      }
+      typingChatRef.current = null;
+      typingSentAtRef.current = 0;
+      return;
+    }
+
+    const chat = activeChatRef.current;
+    if (!chat) return;
+
+    const now = Date.now();
+    if (typingChatRef.current?.id !== chat.id || now - typingSentAtRef.current > TYPING_THROTTLE) {
+      send(chat, true);
+      typingChatRef.current = chat;
+      typingSentAtRef.current = now;
+    }
+    typingIdleRef.current = setTimeout(() => notifyTyping(false), TYPING_IDLE_TIMEOUT);
+  }, []);
+
+  /**
+   * Marks the open chat as read up to its newest message.
+   * With read receipts turned off the server still clears our unread count
+   * but doesn't tell the sender.
+   */
+  const markChatRead = useCallback(async () => {
+    const chat = activeChatRef.current;
+    const latest = [...messagesRef.current].reverse().find(m => !isUnsent(m));
+    if (!chat || !latest) return;
+
+    const key = `${chat.type}:${chat.id}:${latest.id}`;
+    if (lastReadRef.current === key) return;
+    lastReadRef.current = key;
+
+    try {
+      const target = chat.type === 'group' ? { groupId: chat.id } : { dmId: chat.id };
+      const res = await apiClient.post(API_ENDPOINTS.markRead, {
+        ...target,
+        messageId: latest.id,
+        sendReceipt: readReceiptsRef.current,
+      });
+
+      if (res.error) {
+        lastReadRef.current = null;
+        return;
+      }
+
+      if (chat.type === 'group') {
+        setGroups(prev => prev.map(g => g.id === chat.id ? { ...g, unreadCount: 0 } : g));
+      } else {
+        setDMs(prev => prev.map(d => d.id === chat.id ? { ...d, unreadCount: 0 } : d));
+      }
+    } catch (error) {
+      lastReadRef.current = null;
+    }
+  }, []);
+
+  const removeTypingUser = useCallback((userId: string) => {
+    const timer = typingExpiryRef.current.get(userId);
+    if (timer) {
+      clearTimeout(timer);
+      typingExpiryRef.current.delete(userId);
+    }
+    setTypingUsers(prev => prev.some(u => u.id === userId) ? prev.filter(u => u.id !== userId) : prev);
+  }, []);
+
+  const clearTypingUsers = useCallback(() => {
+    typingExpiryRef.current.forEach(timer => clearTimeout(timer));
+    typingExpiryRef.current.clear();
+    setTypingUsers([]);
+  }, []);
+
   // Fetch messages when active chat changes
+  const activeChatKey = activeChat ? `${activeChat.type}:${activeChat.id}` : null;
   useEffect(() => {
-    if (activeChat) {
+    clearTypingUsers();
+    if (activeChatKey) {
       setMessages([]);
-      fetchMessages();
+      setHasMore(false);
+      fetchMessagesRef.current();
+    }
+    return () => {
+      // Leaving the chat ends any typing we announced there
+      notifyTyping(false);
+    };
+  }, [activeChatKey, clearTypingUsers, notifyTyping]);
+
+  /** Applies a realtime event to chat state */
+  const handleRealtimeEvent = useCallback((event: RealtimeEvent) => {
+    switch (event.type) {
+      case 'message:new': {
+        const { message, groupId, dmId } = event;
+        const current = activeChatRef.current;
+        const isActive = !!current && (
+          (current.type === 'group' && current.id === groupId) ||
+          (current.type === 'dm' && current.id === dmId)
+        );
+
+        if (isActive) {
+          setMessages(prev => mergeIncoming(prev, [message]));
+          // Sending a message ends that person's typing
+          removeTypingUser(message.sender.id);
+        }
+
+        if (groupId) {
+          setGroups(prev => prev.map(g => g.id === groupId ? { ...g, lastMessage: message } : g));
+        } else if (dmId) {
+          if (!dmsRef.current.some(d => d.id === dmId)) {
+            // A new conversation was started with us
+            fetchDMs();
+          } else {
+            setDMs(prev => prev.map(d => d.id === dmId ? { ...d, lastMessage: message } : d));
+          }
+        }
+        break;
+      }
+
+      case 'message:updated':
+        applyMessageUpdate(event.message.id, m => ({ ...m, ...event.message }), event);
+        break;
+
+      case 'message:deleted':
+        applyMessageUpdate(event.messageId, m => toTombstone(m, event.deletedAt), event);
+        break;
+
+      case 'reaction:update': {
+        const byMe = event.userId === userIdRef.current;
+        applyMessageUpdate(
+          event.messageId,
+          m => ({ ...m, reactions: withReaction(m.reactions, event.emoji, event.added, byMe) }),
+          event,
+        );
+        break;
+      }
+
+      case 'receipt:update': {
+        const current = activeChatRef.current;
+        const isActive = !!current && (
+          (current.type === 'group' && current.id === event.groupId) ||
+          (current.type === 'dm' && current.id === event.dmId)
+        );
+        if (!isActive || event.userId === userIdRef.current) break;
+
+        setMessages(prev => withReceipt(prev, event.messageId, event.status, userIdRef.current));
+        break;
+      }
+
+      case 'typing': {
+        const current = activeChatRef.current;
+        const isActive = !!current && (
+          (current.type === 'group' && current.id === event.groupId) ||
+          (current.type === 'dm' && current.id === event.dmId)
+        );
+        if (!isActive || event.user.id === userIdRef.current) break;
+
+        if (!event.isTyping) {
+          removeTypingUser(event.user.id);
+          break;
+        }
+
+        const existing = typingExpiryRef.current.get(event.user.id);
+        if (existing) {
+          clearTimeout(existing);
+        }
+        typingExpiryRef.current.set(
+          event.user.id,
+          setTimeout(() => removeTypingUser(event.user.id), TYPING_EXPIRY),
+        );
+        setTypingUsers(prev => prev.some(u => u.id === event.user.id) ? prev : [...prev, event.user]);
+        break;
+      }
+
+      case 'groups:update':
+        if (event.groups) {
+          setGroups(event.groups);
+        } else {
+          fetchGroups();
+        }
+        break;
+
+      case 'dms:update':
+        if (event.dms) {
+          setDMs(event.dms);
+        } else {
+          fetchDMs();
+        }
+        break;
+
+      case 'unread:update':
+        if (event.groupId) {
+          setGroups(prev => prev.map(g => g.id === event.groupId ? { ...g, unreadCount: event.unreadCount } : g));
+        } else if (event.dmId) {
+          setDMs(prev => prev.map(d => d.id === event.dmId ? { ...d, unreadCount: event.unreadCount } : d));
+        }
+        break;
+    }
+  }, [fetchGroups, fetchDMs, applyMessageUpdate, removeTypingUser]);
+
+  // Realtime stream lifecycle
+  useEffect(() => {
+    if (!isAuthenticated) {
+      realtimeClient.disconnect();
+      hasConnectedRef.current = false;
+      return;
+    }
+
+    const unsubscribe = realtimeClient.subscribe(handleRealtimeEvent);
+    const unsubscribeStatus = realtimeClient.onStatusChange(setRealtimeStatus);
+    realtimeClient.connect();
+
+    // Close the stream in the background to save battery
+    const appStateSubscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        realtimeClient.connect();
+      } else if (state === 'background') {
+        realtimeClient.disconnect();
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      unsubscribeStatus();
+      appStateSubscription.remove();
+      realtimeClient.disconnect();
+    };
+  }, [isAuthenticated, handleRealtimeEvent]);
+
+  // The stream is closed on purpose in the background, so polling must not take over there
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', setAppState);
+    return () => {
+      subscription.remove();
+    };
+  }, []);
+
+  // Retry the outbox on startup and whenever connectivity comes back
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    flushOutbox();
+    const subscription = Network.addNetworkStateListener(state => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        flushOutbox();
+      }
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [isAuthenticated, flushOutbox]);
+
+  // Catch up on anything missed while the stream was down
+  useEffect(() => {
+    if (realtimeStatus !== 'connected') return;
+
+    if (hasConnectedRef.current) {
+      refreshAll();
+      if (activeChatRef.current) {
+        fetchNewMessagesRef.current();
+      }
     }
-  }, [activeChat?.id, activeChat?.type]);
+    hasConnectedRef.current = true;
+  }, [realtimeStatus, refreshAll]);
 
-  // Polling for new messages
+  // Fallback polling for new messages while the stream is down
   useEffect(() => {
-    if (activeChat) {
+    if (activeChat && appState === 'active' && realtimeStatus !== 'connected') {
       pollingInterval.current = setInterval(() => {
-        fetchMessages();
-      }, 5000);
+        fetchNewMessages();
+      }, FALLBACK_POLL_INTERVAL);
     }
 
     return () => {
       if (pollingInterval.current) {
         clearInterval(pollingInterval.current);
+        pollingInterval.current = null;
       }
     };
-  }, [activeChat?.id, fetchMessages]);
+  }, [activeChat?.id, appState, fetchNewMessages, realtimeStatus]);
 
   return (
     <ChatContext.Provider
       value={{
         groups,
-        dms,
+        dms: visibleDMs,
         activeChat,
         isLoading,
         messages,
         messagesLoading,
+        hasMore,
+        olderMessagesLoading,
+        realtimeStatus,
         setActiveChat,
         fetchGroups,
         fetchDMs,
         fetchMessages,
+        loadOlderMessages,
+        loadMessagesUntil,
         sendMessage,
+        retryMessage,
+        discardMessage,
+        editMessage,
+        deleteMessage,
+        toggleReaction,
+        typingUsers,
+        notifyTyping,
+        readReceiptsEnabled,
+        setReadReceiptsEnabled,
+        markChatRead,
         refreshAll,
         joinGroup,
         createGroup,
         startDM,
+        leaveGroup,
+        deleteGroup,
+        deleteDM,
         togglePin,
+        updateGroup,
+        blockedUsers,
+        isUserBlocked,
+        blockUser,
+        unblockUser,
       }}
     >
       {children}
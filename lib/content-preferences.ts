@@ -0,0 +1,78 @@
+/**
+ * Content Preferences for Nox Chat
+ * Local, per-device choices about how sensitive (NSFW) content is displayed
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const CONTENT_PREFERENCES_KEY = 'nox_content_preferences';
+
+// 'always' blurs NSFW content everywhere, 'groups' only inside group chats, 'off' shows it as-is
+export type NsfwBlurMode = 'always' | 'groups' | 'off';
+
+export interface ContentPreferences {
+  nsfwBlur: NsfwBlurMode;
+  // Set once the user has confirmed they are an adult on entering an NSFW group
+  ageConfirmed: boolean;
+}
+
+const DEFAULT_PREFERENCES: ContentPreferences = {
+  nsfwBlur: 'always',
+  ageConfirmed: false,
+};
+
+/** Whether NSFW content in this kind of chat should be hidden behind a tap-to-reveal overlay */
+export function shouldBlurNsfw(mode: NsfwBlurMode, chatType: 'group' | 'dm'): boolean {
+  if (mode === 'off') return false;
+  if (mode === 'groups') return chatType === 'group';
+  return true;
+}
+
+class ContentPreferencesStore {
+  private preferences: ContentPreferences = { ...DEFAULT_PREFERENCES };
+  private loadPromise: Promise<void> | null = null;
+
+  load(): Promise<ContentPreferences> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(CONTENT_PREFERENCES_KEY);
+          if (stored) {
+            this.preferences = { ...DEFAULT_PREFERENCES, ...JSON.parse(stored) };
+          }
+        } catch (error) {
+          console.error('[ContentPreferences] Failed to load preferences:', error);
+        }
+      })();
+    }
+    return this.loadPromise.then(() => this.get());
+  }
+
+  get(): ContentPreferences {
+    return { ...this.preferences };
+  }
+
+  async update(updates: Partial<ContentPreferences>): Promise<ContentPreferences> {
+    await this.load();
+    this.preferences = { ...this.preferences, ...updates };
+    try {
+      await AsyncStorage.setItem(CONTENT_PREFERENCES_KEY, JSON.stringify(this.preferences));
+    } catch (error) {
+      console.error('[ContentPreferences] Failed to save preferences:', error);
+    }
+    return this.get();
+  }
+
+  async clear() {
+    this.preferences = { ...DEFAULT_PREFERENCES };
+    this.loadPromise = null;
+    try {
+      await AsyncStorage.removeItem(CONTENT_PREFERENCES_KEY);
+    } catch (error) {
+      console.error('[ContentPreferences] Failed to clear preferences:', error);
+    }
+  }
+}
+
+export const contentPreferences = new ContentPreferencesStore();
+export default contentPreferences;
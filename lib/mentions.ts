@@ -0,0 +1,38 @@
+/**
+ * Mention helpers for Nox Chat
+ * Mentions are written as @username in message content
+ */
+
+// @username at the start of the text or after whitespace; a trailing dot is punctuation
+export const MENTION_REGEX = /(^|\s)@([a-zA-Z0-9_](?:[a-zA-Z0-9_.]*[a-zA-Z0-9_])?)/g;
+
+// An unfinished mention right before the cursor, e.g. "hey @al"
+const MENTION_QUERY_REGEX = /(^|\s)@([a-zA-Z0-9_.]*)$/;
+
+/** Returns the usernames mentioned in a message, lowercased and without duplicates */
+export function extractMentions(content: string): string[] {
+  const usernames = new Set<string>();
+  MENTION_REGEX.lastIndex = 0;
+
+  let match;
+  while ((match = MENTION_REGEX.exec(content)) !== null) {
+    usernames.add(match[2].toLowerCase());
+  }
+  return Array.from(usernames);
+}
+
+/** Whether the message content mentions the given username */
+export function mentionsUser(content: string | null | undefined, username: string | null | undefined): boolean {
+  if (!content || !username) return false;
+  return extractMentions(content).includes(username.toLowerCase());
+}
+
+/**
+ * Finds the mention being typed at the cursor.
+ * Returns the partial username and where its "@" starts, or null if not typing a mention.
+ */
+export function getMentionQuery(text: string, cursor: number): { query: string; start: number } | null {
+  const match = MENTION_QUERY_REGEX.exec(text.substring(0, cursor));
+  if (!match) return null;
+  return { query: match[2], start: match.index + match[1].length };
+}
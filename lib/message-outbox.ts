@@ -0,0 +1,139 @@
+/**
+ * Message Outbox for Nox Chat
+ * Persists unsent messages in AsyncStorage so they survive restarts and can be retried
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Attachment, Message, MessageReply } from './types';
+
+const OUTBOX_KEY = 'nox_message_outbox';
+
+export interface OutboxEntry {
+  clientId: string;
+  groupId?: string;
+  dmId?: string;
+  content: string;
+  attachments: Attachment[];
+  replyTo?: MessageReply;
+  createdAt: string;
+  sender: Message['sender'];
+  sendState: 'pending' | 'failed';
+  // False when the server rejected the message; those are only retried manually
+  autoRetry: boolean;
+}
+
+/** Generates a client-side id for optimistic messages */
+export function generateClientId(): string {
+  return `local-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
+}
+
+/** Builds the quoted summary embedded in a reply */
+export function toReplySummary(message: Message): MessageReply {
+  return {
+    id: message.id,
+    content: message.content,
+    sender: {
+      id: message.sender.id,
+      name: message.sender.name,
+      username: message.sender.username,
+      displayUsername: message.sender.displayUsername,
+    },
+    hasAttachments: !!message.attachments?.length,
+    deletedAt: message.deletedAt,
+  };
+}
+
+/** Builds the optimistic message shown in the conversation for an outbox entry */
+export function toOptimisticMessage(entry: OutboxEntry): Message {
+  return {
+    id: entry.clientId,
+    clientId: entry.clientId,
+    content: entry.content,
+    createdAt: entry.createdAt,
+    sender: entry.sender,
+    attachments: entry.attachments.length > 0 ? entry.attachments : null,
+    replyTo: entry.replyTo ?? null,
+    sendState: entry.sendState,
+  };
+}
+
+class MessageOutbox {
+  private entries: OutboxEntry[] = [];
+  private loadPromise: Promise<void> | null = null;
+
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(OUTBOX_KEY);
+          if (stored) {
+            // Anything that was in flight when the app closed needs another attempt
+            this.entries = (JSON.parse(stored) as OutboxEntry[]).map(entry => ({
+              ...entry,
+              sendState: 'failed',
+            }));
+          }
+        } catch (error) {
+          console.error('[Outbox] Failed to load outbox:', error);
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  getEntries(): OutboxEntry[] {
+    return [...this.entries];
+  }
+
+  getEntriesForChat(chat: { type: 'group' | 'dm'; id: string }): OutboxEntry[] {
+    return this.entries.filter(entry =>
+      chat.type === 'group' ? entry.groupId === chat.id : entry.dmId === chat.id
+    );
+  }
+
+  get(clientId: string): OutboxEntry | undefined {
+    return this.entries.find(entry => entry.clientId === clientId);
+  }
+
+  // Mutations wait for the initial load so it cannot overwrite them with the stored entries
+  async add(entry: OutboxEntry) {
+    await this.load();
+    this.entries.push(entry);
+    await this.persist();
+  }
+
+  async update(clientId: string, updates: Partial<OutboxEntry>) {
+    await this.load();
+    this.entries = this.entries.map(entry =>
+      entry.clientId === clientId ? { ...entry, ...updates } : entry
+    );
+    await this.persist();
+  }
+
+  async remove(clientId: string) {
+    await this.load();
+    this.entries = this.entries.filter(entry => entry.clientId !== clientId);
+    await this.persist();
+  }
+
+  async clear() {
+    await this.load();
+    this.entries = [];
+    try {
+      await AsyncStorage.removeItem(OUTBOX_KEY);
+    } catch (error) {
+      console.error('[Outbox] Failed to clear outbox:', error);
+    }
+  }
+
+  private async persist() {
+    try {
+      await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      console.error('[Outbox] Failed to persist outbox:', error);
+    }
+  }
+}
+
+export const messageOutbox = new MessageOutbox();
+export default messageOutbox;
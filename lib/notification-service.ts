@@ -6,6 +6,7 @@
 import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import apiClient from './api-client';
+import { API_ENDPOINTS } from './api-config';
 import { authClient } from './auth-client';
 
 // Lazy load expo-notifications to prevent crashes
@@ -23,6 +24,8 @@ export interface NotificationSettings {
   dmNotifications: boolean;
   groupNotifications: boolean;
   mentionNotifications: boolean;
+  // Group messages only notify when they mention us
+  mentionsOnly: boolean;
   mutedGroups: string[];
 }
 
@@ -37,6 +40,7 @@ class NotificationService {
     dmNotifications: true,
     groupNotifications: true,
     mentionNotifications: true,
+    mentionsOnly: false,
     mutedGroups: [],
   };
   private mutedGroups: Set<string> = new Set();
@@ -49,13 +53,16 @@ class NotificationService {
         
         // Configure notification behavior after loading
         Notifications.setNotificationHandler({
-          handleNotification: async () => ({
-            shouldShowAlert: true,
-            shouldPlaySound: true,
-            shouldSetBadge: true,
-            shouldShowBanner: true,
-            shouldShowList: true,
-          }),
+          handleNotification: async (notification) => {
+            const show = this.shouldPresent(notification.request.content.data);
+            return {
+              shouldShowAlert: show,
+              shouldPlaySound: show,
+              shouldSetBadge: true,
+              shouldShowBanner: show,
+              shouldShowList: show,
+            };
+          },
         });
       } catch (error) {
         if (__DEV__) {
@@ -239,6 +246,36 @@ class NotificationService {
     }
   }
 
+  /** Applies the message type, mute and mentions-only preferences to an incoming push */
+  private shouldPresent(data: Record<string, unknown> | undefined): boolean {
+    if (!this.settings.enabled) return false;
+    if (!data || data.type !== 'message') return true;
+
+    if (data.dmId) {
+      return this.settings.dmNotifications;
+    }
+    if (typeof data.groupId === 'string') {
+      if (this.mutedGroups.has(data.groupId)) return false;
+      if (data.mentioned) return this.settings.mentionNotifications;
+      return this.settings.groupNotifications && !this.settings.mentionsOnly;
+    }
+    return true;
+  }
+
+  // The server decides which pushes to send while the app is closed
+  private async syncSettingsToServer() {
+    try {
+      await apiClient.put(API_ENDPOINTS.notificationSettings, {
+        dmNotifications: this.settings.dmNotifications,
+        groupNotifications: this.settings.groupNotifications,
+        mentionNotifications: this.settings.mentionNotifications,
+        mentionsOnly: this.settings.mentionsOnly,
+      });
+    } catch (error) {
+      console.error('Failed to sync notification settings with server:', error);
+    }
+  }
+
   async getSettings(): Promise<NotificationSettings> {
     return {
       ...this.settings,
@@ -251,6 +288,7 @@ class NotificationService {
     this.mutedGroups = new Set(newSettings.mutedGroups);
     await AsyncStorage.setItem(NOTIFICATION_SETTINGS_KEY, JSON.stringify(this.settings));
     await AsyncStorage.setItem(MUTED_GROUPS_KEY, JSON.stringify(newSettings.mutedGroups));
+    await this.syncSettingsToServer();
     
     if (!this.settings.enabled) {
       await this.unregisterFromPushNotifications();
@@ -262,6 +300,7 @@ class NotificationService {
   async updateSettings(newSettings: Partial<NotificationSettings>) {
     this.settings = { ...this.settings, ...newSettings };
     await AsyncStorage.setItem(NOTIFICATION_SETTINGS_KEY, JSON.stringify(this.settings));
+    await this.syncSettingsToServer();
     
     if (!this.settings.enabled) {
       // Unregister from push notifications
@@ -276,7 +315,8 @@ class NotificationService {
     try {
       const stored = await AsyncStorage.getItem(NOTIFICATION_SETTINGS_KEY);
       if (stored) {
-        this.settings = JSON.parse(stored);
+        // Merge so settings saved by older versions pick up new defaults
+        this.settings = { ...this.settings, ...JSON.parse(stored) };
       }
     } catch (error) {
       console.error('Failed to load notification settings:', error);
@@ -295,6 +335,24 @@ class NotificationService {
     }
   }
 
+  /** Removes this device's push token and resets state so the next account registers afresh */
+  async unregister() {
+    await this.unregisterFromPushNotifications();
+    this.tokenSentToServer = false;
+    this.initialized = false;
+  }
+
+  /** Drops the push tokens registered from revoked sessions so those devices stop receiving pushes */
+  async dropSessionPushTokens(sessionIds: string[]) {
+    for (const sessionId of sessionIds) {
+      try {
+        await apiClient.delete(`${API_ENDPOINTS.pushToken}?sessionId=${encodeURIComponent(sessionId)}`);
+      } catch (error) {
+        console.error('Failed to drop push token for session:', error);
+      }
+    }
+  }
+
   // Muted groups management
   async loadMutedGroups() {
     try {
@@ -0,0 +1,73 @@
+/**
+ * Local Nudity Classifier for Nox Chat
+ * Default classifier for the nudity sensor, backed by the NSFWJS MobileNetV2 model.
+ * The model ships inside the bundle and runs on the TensorFlow.js CPU backend,
+ * so images never leave the device.
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { Buffer } from 'buffer';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import * as jpeg from 'jpeg-js';
+import { load, NSFWJS } from 'nsfwjs/core';
+import { MobileNetV2Model } from 'nsfwjs/models/mobilenet_v2';
+import { NudityClassifier } from './nudity-sensor';
+
+// Input size of the MobileNetV2 model
+const IMAGE_SIZE = 224;
+
+// The model scores Drawing, Hentai, Neutral, Porn and Sexy; only explicit classes
+// count towards the nudity score
+const CLASS_COUNT = 5;
+const NUDITY_CLASSES = ['Porn', 'Hentai'];
+
+let modelPromise: Promise<NSFWJS> | null = null;
+
+// Loads the model on first use so startup is not slowed down
+const getModel = () => {
+  if (!modelPromise) {
+    modelPromise = (async () => {
+      await tf.setBackend('cpu');
+      await tf.ready();
+      return load('MobileNetV2', { modelDefinitions: [MobileNetV2Model] });
+    })();
+    // Allow a later call to retry after a failed load
+    modelPromise.catch(() => {
+      modelPromise = null;
+    });
+  }
+  return modelPromise;
+};
+
+// Downscales the image to the model input size and decodes it to an RGB tensor
+const loadImageTensor = async (uri: string): Promise<tf.Tensor3D> => {
+  const image = await ImageManipulator.manipulate(uri)
+    .resize({ width: IMAGE_SIZE, height: IMAGE_SIZE })
+    .renderAsync();
+  const { base64 } = await image.saveAsync({ format: SaveFormat.JPEG, base64: true });
+  if (!base64) throw new Error('Image manipulator returned no data');
+
+  const { width, height, data } = jpeg.decode(Buffer.from(base64, 'base64'), { useTArray: true });
+  const rgb = new Int32Array(width * height * 3);
+  for (let pixel = 0; pixel < width * height; pixel++) {
+    rgb[pixel * 3] = data[pixel * 4];
+    rgb[pixel * 3 + 1] = data[pixel * 4 + 1];
+    rgb[pixel * 3 + 2] = data[pixel * 4 + 2];
+  }
+  return tf.tensor3d(rgb, [height, width, 3], 'int32');
+};
+
+export const localNudityClassifier: NudityClassifier = {
+  async classify(uri) {
+    const model = await getModel();
+    const tensor = await loadImageTensor(uri);
+    try {
+      const predictions = await model.classify(tensor, CLASS_COUNT);
+      return predictions
+        .filter(prediction => NUDITY_CLASSES.includes(prediction.className))
+        .reduce((score, prediction) => score + prediction.probability, 0);
+    } finally {
+      tensor.dispose();
+    }
+  },
+};
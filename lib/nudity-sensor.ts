@@ -0,0 +1,69 @@
+/**
+ * Nudity Sensor for Nox Chat
+ * Runs images through an on-device classifier for groups that have the sensor enabled.
+ * The classifier is pluggable so a local model can be registered at startup
+ * (and a stub swapped in for tests); without one every image is allowed.
+ */
+
+export interface NudityClassifier {
+  /** Returns the probability (0-1) that the image at the given local or remote URI contains nudity */
+  classify(uri: string): Promise<number>;
+}
+
+export type NudityVerdict = 'allow' | 'warn' | 'block';
+
+export interface NudityScanResult {
+  score: number;
+  verdict: NudityVerdict;
+}
+
+// Outgoing images above WARN ask for confirmation, above BLOCK are refused.
+// Incoming images at or above WARN are blurred.
+export const NUDITY_WARN_THRESHOLD = 0.6;
+export const NUDITY_BLOCK_THRESHOLD = 0.9;
+
+// Remote images are scanned once per session
+const MAX_CACHED_RESULTS = 500;
+
+let classifier: NudityClassifier | null = null;
+const resultCache = new Map<string, NudityScanResult>();
+
+/** Registers the classifier used for scanning; pass null to turn scanning off */
+export function setNudityClassifier(next: NudityClassifier | null) {
+  classifier = next;
+  resultCache.clear();
+}
+
+export function hasNudityClassifier(): boolean {
+  return classifier !== null;
+}
+
+export function getNudityVerdict(score: number): NudityVerdict {
+  if (score >= NUDITY_BLOCK_THRESHOLD) return 'block';
+  if (score >= NUDITY_WARN_THRESHOLD) return 'warn';
+  return 'allow';
+}
+
+/**
+ * Scans an image. Returns null when no classifier is registered or it fails,
+ * so callers can treat the image as unscanned rather than flagged.
+ */
+export async function scanImage(uri: string): Promise<NudityScanResult | null> {
+  if (!classifier) return null;
+
+  const cached = resultCache.get(uri);
+  if (cached) return cached;
+
+  try {
+    const score = await classifier.classify(uri);
+    const result = { score, verdict: getNudityVerdict(score) };
+    if (resultCache.size >= MAX_CACHED_RESULTS) {
+      resultCache.delete(resultCache.keys().next().value!);
+    }
+    resultCache.set(uri, result);
+    return result;
+  } catch (error) {
+    console.error('[NuditySensor] Failed to classify image:', error);
+    return null;
+  }
+}
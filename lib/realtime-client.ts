@@ -0,0 +1,255 @@
+/**
+ * Realtime Client for Nox Chat
+ * Maintains a Server-Sent Events stream to /api/sse and dispatches typed events
+ * Reconnects with exponential backoff when the stream drops
+ */
+
+import { API_BASE_URL, API_ENDPOINTS } from './api-config';
+import { authClient } from './auth-client';
+import { RealtimeEvent, RealtimeStatus } from './types';
+
+type EventListener = (event: RealtimeEvent) => void;
+type StatusListener = (status: RealtimeStatus) => void;
+
+const INITIAL_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+// Server sends a heartbeat comment every ~15s; treat 45s of silence as a dead stream
+const HEARTBEAT_TIMEOUT = 45000;
+// XHR keeps the whole response in responseText, so long-lived streams are reopened past this size
+const MAX_STREAM_BYTES = 1024 * 1024;
+
+class RealtimeClient {
+  private xhr: XMLHttpRequest | null = null;
+  private status: RealtimeStatus = 'disconnected';
+  private shouldConnect = false;
+  private retryAttempt = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  private readOffset = 0;
+  private buffer = '';
+  private eventListeners: Set<EventListener> = new Set();
+  private statusListeners: Set<StatusListener> = new Set();
+
+  connect() {
+    this.shouldConnect = true;
+    if (this.xhr || this.retryTimer) return;
+    this.open();
+  }
+
+  disconnect() {
+    this.shouldConnect = false;
+    this.clearTimers();
+    this.closeStream();
+    this.retryAttempt = 0;
+    this.setStatus('disconnected');
+  }
+
+  getStatus(): RealtimeStatus {
+    return this.status;
+  }
+
+  subscribe(listener: EventListener): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  private open() {
+    this.setStatus(this.retryAttempt > 0 ? 'reconnecting' : 'connecting');
+    this.readOffset = 0;
+    this.buffer = '';
+
+    const xhr = new XMLHttpRequest();
+    this.xhr = xhr;
+
+    xhr.open('GET', `${API_BASE_URL}${API_ENDPOINTS.sse}`);
+    xhr.setRequestHeader('Accept', 'text/event-stream');
+    xhr.setRequestHeader('Cache-Control', 'no-cache');
+    xhr.setRequestHeader('Origin', API_BASE_URL);
+
+    // Cookies are managed by authClient, same as apiClient
+    const cookies = authClient.getCookie();
+    if (cookies) {
+      xhr.setRequestHeader('Cookie', cookies);
+    }
+
+    xhr.onreadystatechange = () => {
+      if (xhr !== this.xhr) return;
+
+      if (xhr.readyState === XMLHttpRequest.HEADERS_RECEIVED) {
+        if (xhr.status === 200) {
+          this.retryAttempt = 0;
+          this.setStatus('connected');
+          this.resetHeartbeat();
+        }
+        return;
+      }
+
+      if (xhr.readyState === XMLHttpRequest.LOADING || xhr.readyState === XMLHttpRequest.DONE) {
+        if (xhr.status === 200) {
+          this.consume(xhr.responseText || '');
+        }
+        // consume() may have swapped in a fresh stream
+        if (xhr !== this.xhr) return;
+      }
+
+      if (xhr.readyState === XMLHttpRequest.DONE) {
+        if (__DEV__) {
+          console.log('[Realtime] Stream closed, status:', xhr.status);
+        }
+        this.handleDrop();
+      }
+    };
+
+    xhr.onerror = () => {
+      if (xhr !== this.xhr) return;
+      this.handleDrop();
+    };
+
+    xhr.send();
+  }
+
+  /** Parses newly received text into SSE frames */
+  private consume(responseText: string) {
+    const chunk = responseText.substring(this.readOffset);
+    this.readOffset = responseText.length;
+    if (!chunk) return;
+
+    this.resetHeartbeat();
+    this.buffer += chunk.replace(/\r\n/g, '\n');
+
+    let boundary = this.buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const frame = this.buffer.substring(0, boundary);
+      this.buffer = this.buffer.substring(boundary + 2);
+      this.dispatchFrame(frame);
+      boundary = this.buffer.indexOf('\n\n');
+    }
+
+    // Only recycle between frames so nothing half-received is dropped
+    if (this.readOffset >= MAX_STREAM_BYTES && !this.buffer) {
+      this.recycle();
+    }
+  }
+
+  /** Replaces the current request with a new one to release the accumulated responseText */
+  private recycle() {
+    if (__DEV__) {
+      console.log('[Realtime] Stream reached size limit, reopening');
+    }
+    this.closeStream();
+    this.clearTimers();
+    this.open();
+  }
+
+  private dispatchFrame(frame: string) {
+    let eventName = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of frame.split('\n')) {
+      // Lines starting with ':' are comments (heartbeats)
+      if (!line || line.startsWith(':')) continue;
+
+      const separator = line.indexOf(':');
+      const field = separator === -1 ? line : line.substring(0, separator);
+      const value = separator === -1 ? '' : line.substring(separator + 1).replace(/^ /, '');
+
+      if (field === 'event') {
+        eventName = value;
+      } else if (field === 'data') {
+        dataLines.push(value);
+      }
+    }
+
+    if (dataLines.length === 0) return;
+
+    try {
+      const payload = JSON.parse(dataLines.join('\n'));
+      const event = { ...payload, type: payload?.type || eventName } as RealtimeEvent;
+      this.eventListeners.forEach(listener => {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error('[Realtime] Listener failed:', error);
+        }
+      });
+    } catch (error) {
+      if (__DEV__) {
+        console.error('[Realtime] Failed to parse event:', error);
+      }
+    }
+  }
+
+  private handleDrop() {
+    this.closeStream();
+    this.clearTimers();
+
+    if (!this.shouldConnect) {
+      this.setStatus('disconnected');
+      return;
+    }
+
+    const delay = Math.min(MAX_RETRY_DELAY, INITIAL_RETRY_DELAY * 2 ** this.retryAttempt);
+    // Add jitter so all clients don't reconnect at the same moment
+    const jitter = Math.random() * delay * 0.3;
+    this.retryAttempt += 1;
+    this.setStatus('reconnecting');
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (this.shouldConnect) {
+        this.open();
+      }
+    }, delay + jitter);
+  }
+
+  private resetHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+    }
+    this.heartbeatTimer = setTimeout(() => {
+      if (__DEV__) {
+        console.log('[Realtime] Heartbeat timed out, reconnecting');
+      }
+      this.handleDrop();
+    }, HEARTBEAT_TIMEOUT);
+  }
+
+  private closeStream() {
+    if (this.xhr) {
+      const xhr = this.xhr;
+      this.xhr = null;
+      xhr.onreadystatechange = null;
+      xhr.onerror = null;
+      xhr.abort();
+    }
+  }
+
+  private clearTimers() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private setStatus(status: RealtimeStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+}
+
+export const realtimeClient = new RealtimeClient();
+export default realtimeClient;
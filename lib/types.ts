@@ -10,6 +10,7 @@ export interface Group {
   unreadCount: number;
   isPinned: boolean;
   anonymousMode?: boolean;
+  adminOnlyChat?: boolean;
 }
 
 export interface DM {
@@ -26,6 +27,70 @@ export interface DM {
   isPinned: boolean;
 }
 
+export interface GroupMember {
+  id: string;
+  role: 'ADMIN' | 'MEMBER';
+  user: {
+    id: string;
+    name: string;
+    username: string | null;
+    displayUsername: string | null;
+    image: string | null;
+  };
+}
+
+export interface GroupBan {
+  id: string;
+  reason: string | null;
+  expiresAt: string | null;
+  user: GroupMember['user'];
+}
+
+export interface GroupInvite {
+  id: string;
+  code: string;
+  expiresAt: string | null;
+  maxUses: number | null;
+  uses: number;
+}
+
+export type ReportCategory = 'spam' | 'harassment' | 'nsfw' | 'other';
+
+// What a report is about; each kind is sent with the chat it was made from
+export type ReportTarget =
+  | { type: 'message'; message: Message }
+  | { type: 'user'; user: Message['sender'] }
+  | { type: 'group'; group: Group };
+
+export interface GroupReport {
+  id: string;
+  category: ReportCategory;
+  note: string | null;
+  createdAt: string;
+  reporter: GroupMember['user'];
+  reportedUser: GroupMember['user'];
+  messages: { id: string; content: string; createdAt: string; deletedAt?: string | null }[];
+}
+
+export interface BlockedUser {
+  id: string;
+  name: string;
+  username: string | null;
+  displayUsername?: string | null;
+  image: string | null;
+}
+
+// A better-auth session, one per signed-in device
+export interface DeviceSession {
+  id: string;
+  token: string;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  expiresAt: Date;
+}
+
 export interface Message {
   id: string;
   content: string;
@@ -43,6 +108,48 @@ export interface Message {
   };
   isNsfw?: boolean;
   attachments?: Attachment[] | null;
+  editedAt?: string | null;
+  deletedAt?: string | null;
+  replyTo?: MessageReply | null;
+  reactions?: MessageReaction[];
+  // Only set on our own messages in DMs
+  deliveryStatus?: DeliveryStatus;
+  // Client-generated id, echoed back by the server for messages sent from this device
+  clientId?: string;
+  // Local delivery state for optimistic messages; absent once the server has the message
+  sendState?: 'pending' | 'failed' | 'sent';
+}
+
+export type DeliveryStatus = 'sent' | 'delivered' | 'read';
+
+export interface MessageReader {
+  user: {
+    id: string;
+    name: string;
+    username: string | null;
+    displayUsername?: string | null;
+    image: string | null;
+  };
+  readAt: string;
+}
+
+export interface MessageReaction {
+  emoji: string;
+  count: number;
+  reactedByMe: boolean;
+}
+
+export interface MessageReply {
+  id: string;
+  content: string;
+  sender: {
+    id: string;
+    name: string;
+    username: string | null;
+    displayUsername?: string | null;
+  };
+  hasAttachments?: boolean;
+  deletedAt?: string | null;
 }
 
 export interface Attachment {
@@ -68,3 +175,21 @@ export interface ChatUser {
   nameColor?: string | null;
   twoFactorEnabled?: boolean | null;
 }
+
+export type RealtimeStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface TypingUser {
+  id: string;
+  name: string;
+}
+
+export type RealtimeEvent =
+  | { type: 'message:new'; message: Message; groupId?: string; dmId?: string }
+  | { type: 'message:updated'; message: Message; groupId?: string; dmId?: string }
+  | { type: 'message:deleted'; messageId: string; deletedAt: string; groupId?: string; dmId?: string }
+  | { type: 'reaction:update'; messageId: string; emoji: string; userId: string; added: boolean; groupId?: string; dmId?: string }
+  | { type: 'receipt:update'; messageId: string; userId: string; status: DeliveryStatus; groupId?: string; dmId?: string }
+  | { type: 'typing'; user: TypingUser; isTyping: boolean; groupId?: string; dmId?: string }
+  | { type: 'groups:update'; groups?: Group[] }
+  | { type: 'dms:update'; dms?: DM[] }
+  | { type: 'unread:update'; groupId?: string; dmId?: string; unreadCount: number };